@@ -0,0 +1,103 @@
+#!/usr/bin/env node
+/**
+ * Local JSON-RPC servers with injectable failures, for trying the RPC
+ * endpoint pool's failover and health reporting.
+ *
+ *   node scripts/mock-rpc.mjs 5051:ok 5052:slow 5053:flaky --upstream http://127.0.0.1:5050/rpc
+ *
+ * Each argument starts a server on a port with a behaviour:
+ *   ok          answer normally
+ *   slow[:ms]   answer after a delay (default 2500 ms)
+ *   error       reply with HTTP 503
+ *   ratelimit   reply with HTTP 429
+ *   flaky       fail half of the requests with HTTP 503
+ *   down        drop the connection without answering
+ *   wrongchain  report the mainnet chain id
+ *
+ * Requests other than starknet_chainId are forwarded to --upstream (for
+ * example starknet-devnet) when given, and answered with "method not found"
+ * otherwise. Point the app at the servers with a comma-separated RPC URL:
+ *
+ *   VITE_DEVNET_RPC_URL=http://127.0.0.1:5051,http://127.0.0.1:5052 npm run dev
+ */
+import http from 'node:http';
+
+const CHAIN_IDS = {
+  SN_SEPOLIA: '0x534e5f5345504f4c4941',
+  SN_MAIN: '0x534e5f4d41494e',
+};
+
+const args = process.argv.slice(2);
+const upstreamIndex = args.indexOf('--upstream');
+const upstream = upstreamIndex >= 0 ? args.splice(upstreamIndex, 2)[1] : undefined;
+const chainIndex = args.indexOf('--chain');
+const chainId = chainIndex >= 0 ? CHAIN_IDS[args.splice(chainIndex, 2)[1]] : CHAIN_IDS.SN_SEPOLIA;
+
+if (args.length === 0) {
+  console.error('Usage: node scripts/mock-rpc.mjs <port>:<behaviour> ... [--upstream <url>] [--chain SN_SEPOLIA|SN_MAIN]');
+  process.exit(1);
+}
+
+const sleep = ms => new Promise(resolve => setTimeout(resolve, ms));
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'Content-Type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+function send(res, status, body) {
+  res.writeHead(status, { ...CORS_HEADERS, 'Content-Type': 'application/json' });
+  res.end(typeof body === 'string' ? body : JSON.stringify(body));
+}
+
+async function answer(request, behaviour) {
+  const calls = Array.isArray(request) ? request : [request];
+  const responses = await Promise.all(calls.map(async call => {
+    if (call.method === 'starknet_chainId') {
+      return { jsonrpc: '2.0', id: call.id, result: behaviour === 'wrongchain' ? CHAIN_IDS.SN_MAIN : chainId };
+    }
+    if (!upstream) {
+      return { jsonrpc: '2.0', id: call.id, error: { code: -32601, message: `Method not found: ${call.method}` } };
+    }
+    const response = await fetch(upstream, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(call),
+    });
+    return response.json();
+  }));
+  return Array.isArray(request) ? responses : responses[0];
+}
+
+for (const spec of args) {
+  const [port, behaviour = 'ok', option] = spec.split(':');
+  let requests = 0;
+
+  http.createServer((req, res) => {
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204, CORS_HEADERS);
+      res.end();
+      return;
+    }
+
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', async () => {
+      requests++;
+      console.log(`[${port} ${behaviour}] #${requests} ${body.slice(0, 120)}`);
+      try {
+        if (behaviour === 'down') return req.socket.destroy();
+        if (behaviour === 'error') return send(res, 503, { error: 'Service unavailable' });
+        if (behaviour === 'ratelimit') return send(res, 429, { error: 'Too many requests' });
+        if (behaviour === 'flaky' && requests % 2 === 0) return send(res, 503, { error: 'Service unavailable' });
+        if (behaviour === 'slow') await sleep(Number(option) || 2500);
+        send(res, 200, await answer(JSON.parse(body), behaviour));
+      } catch (error) {
+        send(res, 200, { jsonrpc: '2.0', id: null, error: { code: -32700, message: error.message } });
+      }
+    });
+  }).listen(Number(port), '127.0.0.1', () => {
+    console.log(`Mock RPC (${behaviour}) listening on http://127.0.0.1:${port}`);
+  });
+}
@@ -1,20 +1,48 @@
-import React from 'react';
 import { BrowserRouter as Router, Routes, Route } from 'react-router-dom';
+import { Home } from './pages/Home';
 import { PointsContract } from './pages/PointsContract';
 import { CollectibleContract } from './pages/CollectibleContract';
 import { CollectibleToken } from './pages/CollectibleToken';
+import { ContractActivity } from './pages/ContractActivity';
+import { AccountRewards, MyAccount } from './pages/AccountRewards';
+import { NotFound } from './pages/NotFound';
 import { Layout } from './components/Layout';
+import { RouteErrorBoundary } from './components/ErrorBoundary';
+import { RouteParamGuard } from './components/RouteParamGuard';
+import { NetworkProvider } from './context/NetworkContext';
+import { WalletProvider } from './context/WalletContext';
 
 function App() {
   return (
     <Router>
-      <Layout>
-        <Routes>
-          <Route path="/points/:address" element={<PointsContract />} />
-          <Route path="/collectibles/:address" element={<CollectibleContract />} />
-          <Route path="/collectibles/:address/token/:tokenId" element={<CollectibleToken />} />
-        </Routes>
-      </Layout>
+      <NetworkProvider>
+        <WalletProvider>
+          <Layout>
+            <RouteErrorBoundary>
+              <Routes>
+                <Route path="/" element={<Home />} />
+                <Route path="/points/:address" element={<RouteParamGuard><PointsContract /></RouteParamGuard>} />
+                <Route
+                  path="/points/:address/activity/:account"
+                  element={<RouteParamGuard><ContractActivity kind="points" /></RouteParamGuard>}
+                />
+                <Route path="/collectibles/:address" element={<RouteParamGuard><CollectibleContract /></RouteParamGuard>} />
+                <Route
+                  path="/collectibles/:address/token/:tokenId"
+                  element={<RouteParamGuard><CollectibleToken /></RouteParamGuard>}
+                />
+                <Route
+                  path="/collectibles/:address/activity/:account"
+                  element={<RouteParamGuard><ContractActivity kind="collectible" /></RouteParamGuard>}
+                />
+                <Route path="/account" element={<MyAccount />} />
+                <Route path="/account/:address" element={<RouteParamGuard><AccountRewards /></RouteParamGuard>} />
+                <Route path="*" element={<NotFound />} />
+              </Routes>
+            </RouteErrorBoundary>
+          </Layout>
+        </WalletProvider>
+      </NetworkProvider>
     </Router>
   );
 }
@@ -0,0 +1,267 @@
+import { FormEvent, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowRight, ExternalLink, History } from 'lucide-react';
+import { useActivity, useActivityFilters } from '../hooks/useActivity';
+import { useNetwork } from '../hooks/useNetwork';
+import type { ContractKind } from '../services/contractService';
+import { ACTIVITY_TYPES, ActivityEvent, ActivityType } from '../services/eventService';
+import { parseAddress } from '../utils/address';
+import { shortenAddress } from '../utils/stringUtils';
+import { ContractErrorState } from './ContractErrorState';
+import { PointsAmount } from './PointsAmount';
+
+const TYPE_LABELS: Record<ActivityType, string> = {
+  mint: 'Mint',
+  transfer: 'Transfer',
+  burn: 'Burn',
+  redeem: 'Redemption',
+};
+
+const TYPE_STYLES: Record<ActivityType, string> = {
+  mint: 'bg-green-100 text-green-800',
+  transfer: 'bg-blue-100 text-blue-800',
+  burn: 'bg-red-100 text-red-800',
+  redeem: 'bg-amber-100 text-amber-800',
+};
+
+// Per-address history on the same contract
+function activityPath(kind: ContractKind, contract: string, account: string): string {
+  return `/${kind === 'points' ? 'points' : 'collectibles'}/${contract}/activity/${account}`;
+}
+
+interface ActivityFeedProps {
+  contract: string;
+  kind: ContractKind;
+  /** Show only this address's history, without the address filter */
+  account?: string;
+  /** Points contracts: decimals and symbol for amounts; amounts wait for the decimals */
+  decimals?: number;
+  /** True when the points contract's details failed to load */
+  decimalsFailed?: boolean;
+  symbol?: string;
+}
+
+/**
+ * Mints, transfers, burns and redemptions of a contract, newest first, read
+ * from the contract's events
+ */
+export function ActivityFeed({ contract, kind, account, decimals, decimalsFailed, symbol }: ActivityFeedProps) {
+  const filters = useActivityFilters(kind);
+  const filterAccount = account ?? filters.account;
+  const {
+    events,
+    error,
+    isLoading,
+    isFetching,
+    refetch,
+    fromBlock,
+    hasMore,
+    loadMore,
+    loadingMore,
+    loadMoreError,
+  } = useActivity(contract, kind, filters.types, filterAccount);
+
+  return (
+    <div className="bg-white shadow rounded-lg overflow-hidden">
+      <div className="px-4 py-5 sm:p-6 space-y-4">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div className="flex items-center">
+            <History className="h-5 w-5 text-indigo-600 mr-2" />
+            <h2 className="text-lg font-medium text-gray-900">Activity</h2>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <select
+              value={filters.types[0] ?? ''}
+              onChange={e => filters.setType((e.target.value || undefined) as ActivityType | undefined)}
+              className="rounded-md border-gray-300 text-sm focus:border-indigo-500 focus:ring-indigo-500"
+              aria-label="Event type"
+            >
+              <option value="">All events</option>
+              {ACTIVITY_TYPES[kind].map(type => (
+                <option key={type} value={type}>{TYPE_LABELS[type]}</option>
+              ))}
+            </select>
+            {!account && (
+              <AccountFilter value={filters.account} onChange={filters.setAccount} />
+            )}
+          </div>
+        </div>
+
+        {isLoading ? (
+          <p className="text-sm text-gray-500">Loading activity…</p>
+        ) : error && events.length === 0 ? (
+          <ContractErrorState
+            error={error}
+            fallbackMessage="Failed to load contract activity"
+            onRetry={refetch}
+            retrying={isFetching}
+          />
+        ) : (
+          <>
+            {events.length === 0 ? (
+              <p className="text-sm text-gray-500 italic">No matching activity found.</p>
+            ) : (
+              <ul className="divide-y divide-gray-200">
+                {events.map(event => (
+                  <ActivityRow
+                    key={event.id}
+                    event={event}
+                    contract={contract}
+                    kind={kind}
+                    decimals={decimals}
+                    decimalsFailed={decimalsFailed}
+                    symbol={symbol}
+                  />
+                ))}
+              </ul>
+            )}
+
+            <div className="flex flex-wrap items-center justify-between gap-2 text-sm text-gray-500">
+              <span>
+                {hasMore
+                  ? `Showing activity since block ${fromBlock?.toLocaleString()}`
+                  : 'Showing all activity'}
+              </span>
+              {hasMore && (
+                <button
+                  type="button"
+                  onClick={loadMore}
+                  disabled={loadingMore}
+                  className="px-3 py-1.5 rounded-md border border-gray-300 font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                >
+                  {loadingMore ? 'Loading…' : 'Load older activity'}
+                </button>
+              )}
+            </div>
+            {loadMoreError !== undefined && (
+              <p className="text-sm text-red-600">Failed to load older activity. Try again.</p>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function AccountFilter({ value, onChange }: { value?: string; onChange: (value: string | undefined) => void }) {
+  const [input, setInput] = useState(value ?? '');
+  const [inputError, setInputError] = useState<string>();
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    if (!input.trim()) {
+      setInputError(undefined);
+      onChange(undefined);
+      return;
+    }
+    const { address, error } = parseAddress(input);
+    setInputError(error);
+    if (address) onChange(address);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="flex items-center gap-2">
+      <input
+        type="text"
+        value={input}
+        onChange={e => setInput(e.target.value)}
+        placeholder="Filter by address"
+        aria-label="Filter by address"
+        aria-invalid={!!inputError}
+        title={inputError}
+        className={`w-48 rounded-md text-sm focus:border-indigo-500 focus:ring-indigo-500 ${inputError ? 'border-red-300' : 'border-gray-300'}`}
+      />
+      <button
+        type="submit"
+        className="px-3 py-1.5 rounded-md bg-indigo-600 text-sm font-medium text-white hover:bg-indigo-500"
+      >
+        Filter
+      </button>
+      {value && (
+        <button
+          type="button"
+          onClick={() => {
+            setInput('');
+            setInputError(undefined);
+            onChange(undefined);
+          }}
+          className="text-sm text-gray-500 hover:text-gray-700"
+        >
+          Clear
+        </button>
+      )}
+    </form>
+  );
+}
+
+interface ActivityRowProps {
+  event: ActivityEvent;
+  contract: string;
+  kind: ContractKind;
+  decimals: number | undefined;
+  decimalsFailed?: boolean;
+  symbol?: string;
+}
+
+function ActivityRow({ event, contract, kind, decimals, decimalsFailed, symbol }: ActivityRowProps) {
+  const { network } = useNetwork();
+
+  const party = (address: string) => (
+    <Link
+      to={activityPath(kind, contract, address)}
+      className="font-mono text-indigo-600 hover:text-indigo-500"
+      title={address}
+    >
+      {shortenAddress(address)}
+    </Link>
+  );
+
+  return (
+    <li className="py-3 flex flex-wrap items-center gap-x-4 gap-y-1 text-sm">
+      <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${TYPE_STYLES[event.type]}`}>
+        {TYPE_LABELS[event.type]}
+      </span>
+
+      <span className="flex items-center gap-1 text-gray-700">
+        {event.type === 'mint' ? (
+          <>to {party(event.to)}</>
+        ) : event.type === 'transfer' ? (
+          <>{party(event.from)}<ArrowRight className="h-3 w-3 text-gray-400" />{party(event.to)}</>
+        ) : (
+          <>from {party(event.from)}</>
+        )}
+      </span>
+
+      <span className="text-gray-900">
+        {event.amount !== undefined && (
+          <PointsAmount amount={event.amount} decimals={decimals} failed={decimalsFailed} symbol={symbol} />
+        )}
+        {event.tokens?.map(({ tokenId, amount }, index) => (
+          <span key={`${index}:${tokenId}`}>
+            {index > 0 && ', '}
+            <Link to={`/collectibles/${contract}/token/${tokenId}`} className="text-indigo-600 hover:text-indigo-500">
+              #{tokenId}
+            </Link>
+            {' × '}{amount.toString()}
+          </span>
+        ))}
+      </span>
+
+      <span className="ml-auto flex items-center gap-2 text-gray-500">
+        Block {event.blockNumber.toLocaleString()}
+        {network.explorerUrl && (
+          <a
+            href={`${network.explorerUrl}/tx/${event.transactionHash}`}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="inline-flex items-center text-indigo-600 hover:text-indigo-500"
+            title={event.transactionHash}
+          >
+            {shortenAddress(event.transactionHash)}
+            <ExternalLink className="h-3 w-3 ml-1" />
+          </a>
+        )}
+      </span>
+    </li>
+  );
+}
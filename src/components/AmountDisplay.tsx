@@ -0,0 +1,50 @@
+import { MouseEvent, useState } from 'react';
+import { Check, Copy } from 'lucide-react';
+import { Amount, amountToExactString, formatAmount } from '../utils/amount';
+
+interface AmountDisplayProps {
+  amount: Amount;
+  symbol?: string;
+  compact?: boolean;
+  /** Show a button that copies the exact value */
+  copyable?: boolean;
+  className?: string;
+}
+
+export function AmountDisplay({ amount, symbol, compact = false, copyable = false, className = '' }: AmountDisplayProps) {
+  const [copied, setCopied] = useState(false);
+  const exact = amountToExactString(amount);
+
+  const handleCopy = async (e: MouseEvent) => {
+    // Amounts are often rendered inside links
+    e.preventDefault();
+    e.stopPropagation();
+    try {
+      await navigator.clipboard.writeText(exact);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch (err) {
+      console.error('Error copying amount:', err);
+    }
+  };
+
+  return (
+    <span
+      className={`inline-flex items-center ${className}`}
+      title={`${exact}${symbol ? ` ${symbol}` : ''} (raw: ${amount.raw.toString()})`}
+    >
+      {formatAmount(amount, { compact })}
+      {symbol && <span className="ml-1">{symbol}</span>}
+      {copyable && (
+        <button
+          type="button"
+          onClick={handleCopy}
+          className="ml-1 text-gray-400 hover:text-indigo-600"
+          aria-label="Copy exact amount"
+        >
+          {copied ? <Check className="h-3.5 w-3.5" /> : <Copy className="h-3.5 w-3.5" />}
+        </button>
+      )}
+    </span>
+  );
+}
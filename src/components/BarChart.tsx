@@ -0,0 +1,44 @@
+export interface BarChartDatum {
+  label: string;
+  value: number;
+}
+
+interface BarChartProps {
+  data: BarChartDatum[];
+  /** Text for the tooltip of each bar */
+  formatValue?: (value: number) => string;
+  className?: string;
+}
+
+/**
+ * Vertical bars scaled to the largest value, with labels underneath
+ */
+export function BarChart({ data, formatValue = String, className = 'h-40' }: BarChartProps) {
+  const max = Math.max(0, ...data.map(datum => datum.value));
+
+  return (
+    <div>
+      <svg
+        viewBox={`0 0 ${data.length * 10} 100`}
+        preserveAspectRatio="none"
+        className={`w-full ${className}`}
+        role="img"
+        aria-label={data.map(datum => `${datum.label}: ${formatValue(datum.value)}`).join(', ')}
+      >
+        {data.map((datum, index) => {
+          const height = max > 0 ? (datum.value / max) * 100 : 0;
+          return (
+            <rect key={index} x={index * 10 + 1} y={100 - height} width={8} height={height} className="fill-indigo-500">
+              <title>{`${datum.label}: ${formatValue(datum.value)}`}</title>
+            </rect>
+          );
+        })}
+      </svg>
+      <div className="mt-1 flex text-xs text-gray-500">
+        {data.map((datum, index) => (
+          <span key={index} className="flex-1 truncate text-center" title={datum.label}>{datum.label}</span>
+        ))}
+      </div>
+    </div>
+  );
+}
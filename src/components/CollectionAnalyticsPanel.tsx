@@ -0,0 +1,239 @@
+import { useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { BarChart3 } from 'lucide-react';
+import { useEventIndex } from '../hooks/useEventIndex';
+import { TokenAnalytics, collectionAnalyticsIndex } from '../services/collectionAnalytics';
+import { formatAmount, toAmount } from '../utils/amount';
+import { bucketHistory, summarizeCollection } from '../utils/collectionStats';
+import { TokenAnalyticsRow, analyticsExport, analyticsExportRecords } from '../utils/contractExport';
+import { ExportFormat, downloadExport, fileSlug } from '../utils/exportData';
+import { shareOf } from '../utils/holderStats';
+import { AmountDisplay } from './AmountDisplay';
+import { BarChart } from './BarChart';
+import { ContractErrorState } from './ContractErrorState';
+import { ExportButtons } from './ExportButtons';
+import { IndexSyncStatus } from './IndexSyncStatus';
+import { LineChart } from './LineChart';
+import { StatCard } from './StatCard';
+
+const HISTORY_BUCKETS = 12;
+
+const NO_ACTIVITY: TokenAnalytics = { minted: 0n, redeemed: 0n, pointsSpent: 0n, redeemers: new Set() };
+
+export interface AnalyticsToken {
+  tokenId: string;
+  name: string;
+  /** Current price in raw units of the points contract */
+  price: bigint;
+}
+
+interface CollectionAnalyticsPanelProps {
+  contract: string;
+  pointsContract: string;
+  /** Tokens listed by the contract, in display order */
+  tokens: AnalyticsToken[];
+  collectionName: string;
+  pointsDecimals: number;
+  pointsSymbol: string;
+}
+
+function formatRate(redeemed: bigint, minted: bigint): string {
+  return minted > 0n ? `${(shareOf(redeemed, minted) * 100).toFixed(1)}%` : '—';
+}
+
+const formatCompact = (value: number) => new Intl.NumberFormat(undefined, { notation: 'compact' }).format(value);
+
+/**
+ * Purchases, redemptions and points spent per token of a collectible
+ * contract, reconstructed from its events, with CSV and JSON exports
+ */
+export function CollectionAnalyticsPanel({
+  contract,
+  pointsContract,
+  tokens,
+  collectionName,
+  pointsDecimals,
+  pointsSymbol,
+}: CollectionAnalyticsPanelProps) {
+  const definition = useMemo(() => collectionAnalyticsIndex(pointsContract), [pointsContract]);
+  const { state: analytics, progress, error, isLoading, isFetching, refetch } = useEventIndex(definition, contract);
+
+  const rows = useMemo((): TokenAnalyticsRow[] => {
+    if (!analytics) return [];
+    // Tokens no longer listed still count if they were ever minted
+    const listed = new Set(tokens.map(token => token.tokenId));
+    const unlisted = [...analytics.tokens.keys()]
+      .filter(tokenId => !listed.has(tokenId))
+      .map(tokenId => ({ tokenId, name: `Token #${tokenId}`, price: undefined }));
+    return [...tokens, ...unlisted]
+      .map(token => ({ ...token, ...(analytics.tokens.get(token.tokenId) ?? NO_ACTIVITY) }))
+      .sort((a, b) => (a.redeemed === b.redeemed ? 0 : a.redeemed > b.redeemed ? -1 : 1));
+  }, [analytics, tokens]);
+
+  const summary = useMemo(() => (analytics ? summarizeCollection(analytics) : null), [analytics]);
+
+  const redemptionBuckets = useMemo(() => {
+    if (!analytics || analytics.history.length === 0) return [];
+    return bucketHistory(analytics.history, analytics.history[0].block, analytics.indexedBlock, HISTORY_BUCKETS);
+  }, [analytics]);
+
+  const supplyPoints = useMemo(() => {
+    if (!analytics) return [];
+    let supply = 0n;
+    const points = analytics.history.map(({ block, minted, redeemed }) => {
+      supply += minted - redeemed;
+      return { x: block, y: Number(supply) };
+    });
+    // Extend the last value to the indexed block so the chart ends now
+    const last = points[points.length - 1];
+    if (last && last.x < analytics.indexedBlock) points.push({ x: analytics.indexedBlock, y: last.y });
+    return points;
+  }, [analytics]);
+
+  const exportAnalytics = (format: ExportFormat) => {
+    if (!analytics) return;
+    downloadExport(
+      `${fileSlug(collectionName, contract)}-analytics-block-${analytics.indexedBlock}`,
+      format,
+      analyticsExportRecords(rows, pointsDecimals),
+      analyticsExport(contract, analytics, rows)
+    );
+  };
+
+  if (error && !analytics) {
+    return (
+      <ContractErrorState
+        error={error}
+        fallbackMessage="Failed to index the activity of this collection"
+        onRetry={refetch}
+        retrying={isFetching}
+      />
+    );
+  }
+
+  if (isLoading && !analytics) {
+    return <p className="text-sm text-gray-500">Loading analytics…</p>;
+  }
+
+  if (!analytics || !summary) return null;
+
+  const syncing = progress !== null;
+
+  return (
+    <div className="space-y-6">
+      <IndexSyncStatus
+        indexedBlock={analytics.indexedBlock}
+        progress={progress}
+        source="collection events"
+        syncedMessage="Purchases and redemptions reconstructed from events up to block"
+      />
+
+      <dl className="grid grid-cols-2 gap-4 sm:grid-cols-4">
+        <StatCard label="Purchased" value={summary.minted.toLocaleString()} />
+        <StatCard
+          label="Redeemed"
+          value={summary.redeemed.toLocaleString()}
+          hint={`${formatRate(summary.redeemed, summary.minted)} of purchased units`}
+        />
+        <StatCard
+          label="Points spent"
+          value={`${formatAmount(toAmount(summary.pointsSpent, pointsDecimals), { compact: true })} ${pointsSymbol}`}
+          hint="Points paid by buyers in the transactions that minted collectibles"
+        />
+        <StatCard label="Unique redeemers" value={summary.uniqueRedeemers.toLocaleString()} />
+      </dl>
+
+      <div className="bg-white shadow rounded-lg overflow-hidden">
+        <div className="px-4 py-5 sm:p-6">
+          <div className="flex items-center justify-between mb-4">
+            <div className="flex items-center">
+              <BarChart3 className="h-5 w-5 text-indigo-600 mr-2" />
+              <h2 className="text-lg font-medium text-gray-900">Performance by token</h2>
+            </div>
+            <ExportButtons
+              onExport={exportAnalytics}
+              subject="token analytics"
+              disabledReason={syncing ? 'Available once indexing has finished' : undefined}
+            />
+          </div>
+          {rows.length === 0 ? (
+            <p className="text-sm text-gray-500 italic">This collection has no tokens yet.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500">
+                    <th className="py-2 pr-4 font-medium">Token</th>
+                    <th className="py-2 pr-4 font-medium text-right">Purchased</th>
+                    <th className="py-2 pr-4 font-medium text-right">Redeemed</th>
+                    <th className="py-2 pr-4 font-medium text-right">Redemption rate</th>
+                    <th className="py-2 pr-4 font-medium text-right">Redeemers</th>
+                    <th className="py-2 font-medium text-right">Points spent</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {rows.map(row => (
+                    <tr key={row.tokenId}>
+                      <td className="py-2 pr-4">
+                        <Link
+                          to={`/collectibles/${contract}/token/${row.tokenId}`}
+                          className="text-indigo-600 hover:text-indigo-500"
+                        >
+                          {row.name}
+                        </Link>
+                      </td>
+                      <td className="py-2 pr-4 text-right text-gray-900">{row.minted.toLocaleString()}</td>
+                      <td className="py-2 pr-4 text-right text-gray-900">{row.redeemed.toLocaleString()}</td>
+                      <td className="py-2 pr-4 text-right text-gray-500">{formatRate(row.redeemed, row.minted)}</td>
+                      <td className="py-2 pr-4 text-right text-gray-900">{row.redeemers.size.toLocaleString()}</td>
+                      <td className="py-2 text-right text-gray-900">
+                        <AmountDisplay amount={toAmount(row.pointsSpent, pointsDecimals)} symbol={pointsSymbol} />
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        <div className="bg-white shadow rounded-lg overflow-hidden">
+          <div className="px-4 py-5 sm:p-6">
+            <h2 className="text-lg font-medium text-gray-900">Redemptions over time</h2>
+            <p className="mb-4 text-sm text-gray-500">Units redeemed per block range</p>
+            {summary.redeemed === 0n ? (
+              <p className="text-sm text-gray-500 italic">Nothing has been redeemed yet.</p>
+            ) : (
+              <BarChart
+                data={redemptionBuckets.map(bucket => ({
+                  label: formatCompact(bucket.fromBlock),
+                  value: Number(bucket.redeemed),
+                }))}
+                formatValue={count => `${count.toLocaleString()} redeemed`}
+              />
+            )}
+          </div>
+        </div>
+
+        <div className="bg-white shadow rounded-lg overflow-hidden">
+          <div className="px-4 py-5 sm:p-6">
+            <h2 className="text-lg font-medium text-gray-900">Supply over time</h2>
+            <p className="mb-4 text-sm text-gray-500">Units purchased and not yet redeemed, by block</p>
+            {supplyPoints.length === 0 ? (
+              <p className="text-sm text-gray-500 italic">Nothing has been purchased yet.</p>
+            ) : (
+              <LineChart
+                points={supplyPoints}
+                step
+                formatX={block => `Block ${block.toLocaleString()}`}
+                formatY={formatCompact}
+              />
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
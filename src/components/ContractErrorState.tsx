@@ -0,0 +1,130 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { RefreshCw } from 'lucide-react';
+import {
+  AbiSchemaMismatchError,
+  ClassNotFoundError,
+  ContractNotDeployedError,
+  DecodeError,
+  NetworkUnavailableError,
+  RpcRequestError,
+  TokenNotFoundError,
+  WrongContractTypeError,
+} from '../services/errors';
+import { useNetwork } from '../hooks/useNetwork';
+import { shortenAddress } from '../utils/stringUtils';
+
+const linkClassName = 'font-medium text-red-800 underline hover:text-red-900';
+
+interface ErrorDescription {
+  title: string;
+  message: React.ReactNode;
+  /** False when retrying cannot change the outcome */
+  retryable?: boolean;
+}
+
+function describeError(error: unknown, networkName: string, fallbackMessage: string): ErrorDescription {
+  if (error instanceof NetworkUnavailableError) {
+    return {
+      title: 'Network unavailable',
+      message: `The ${networkName} RPC endpoint could not be reached. Check your connection or try again later.`,
+    };
+  }
+  if (error instanceof RpcRequestError) {
+    return {
+      title: 'RPC request failed',
+      message: `The ${networkName} node returned an error (${error.code}). Try again in a moment.`,
+    };
+  }
+  if (error instanceof ContractNotDeployedError) {
+    return {
+      title: 'Contract not found',
+      message: (
+        <>
+          No contract is deployed at {shortenAddress(error.address)} on {networkName}. Check the address or
+          switch networks.
+        </>
+      ),
+    };
+  }
+  if (error instanceof ClassNotFoundError) {
+    return {
+      title: 'Contract class not found',
+      message: `The node has no class ${shortenAddress(error.classHash)} for this contract on ${networkName}.`,
+    };
+  }
+  if (error instanceof DecodeError || error instanceof AbiSchemaMismatchError) {
+    return {
+      title: 'Unexpected contract response',
+      message: 'The contract returned data this app cannot read. It may run a different version of the InfiniRewards contracts.',
+      retryable: false,
+    };
+  }
+  if (error instanceof WrongContractTypeError) {
+    return {
+      title: `Not a ${error.expected} contract`,
+      retryable: false,
+      message: error.actual ? (
+        <>
+          This address holds a {error.actual} contract.{' '}
+          <Link
+            to={error.actual === 'points' ? `/points/${error.address}` : `/collectibles/${error.address}`}
+            className={linkClassName}
+          >
+            Open it as a {error.actual} contract
+          </Link>
+        </>
+      ) : 'This address holds a contract that is not an InfiniRewards points or collectible contract.',
+    };
+  }
+  if (error instanceof TokenNotFoundError) {
+    return {
+      title: 'Token not found',
+      retryable: false,
+      message: (
+        <>
+          This collection has no token #{error.tokenId}.{' '}
+          <Link to={`/collectibles/${error.address}`} className={linkClassName}>Back to the collection</Link>
+        </>
+      ),
+    };
+  }
+  return { title: 'Something went wrong', message: fallbackMessage };
+}
+
+interface ContractErrorStateProps {
+  error: unknown;
+  /** Shown for errors that have no specific explanation */
+  fallbackMessage: string;
+  /** Adds a Retry button for errors that may be temporary */
+  onRetry?: () => void;
+  /** True while the retry is in flight */
+  retrying?: boolean;
+}
+
+/**
+ * Explains why a contract page could not load: network down, nothing
+ * deployed, wrong kind of contract or unknown token
+ */
+export function ContractErrorState({ error, fallbackMessage, onRetry, retrying = false }: ContractErrorStateProps) {
+  const { network } = useNetwork();
+  const { title, message, retryable = true } = describeError(error, network.name, fallbackMessage);
+
+  return (
+    <div className="bg-red-50 p-4 rounded-lg" role="alert">
+      <h2 className="font-medium text-red-800">{title}</h2>
+      <p className="mt-1 text-sm text-red-700">{message}</p>
+      {onRetry && retryable && (
+        <button
+          type="button"
+          onClick={onRetry}
+          disabled={retrying}
+          className="mt-3 inline-flex items-center rounded-md bg-white px-3 py-1.5 text-sm font-medium text-red-800 shadow-sm ring-1 ring-red-200 hover:bg-red-100 disabled:opacity-50"
+        >
+          <RefreshCw className={`h-4 w-4 mr-1 ${retrying ? 'animate-spin' : ''}`} />
+          {retrying ? 'Retrying…' : 'Retry'}
+        </button>
+      )}
+    </div>
+  );
+}
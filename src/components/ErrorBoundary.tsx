@@ -0,0 +1,55 @@
+import React from 'react';
+import { Link, useLocation } from 'react-router-dom';
+
+interface ErrorBoundaryProps {
+  children: React.ReactNode;
+}
+
+interface ErrorBoundaryState {
+  error: Error | null;
+}
+
+class ErrorBoundary extends React.Component<ErrorBoundaryProps, ErrorBoundaryState> {
+  state: ErrorBoundaryState = { error: null };
+
+  static getDerivedStateFromError(error: Error): ErrorBoundaryState {
+    return { error };
+  }
+
+  componentDidCatch(error: Error, info: React.ErrorInfo) {
+    console.error('Unhandled error while rendering:', error, info.componentStack);
+  }
+
+  render() {
+    const { error } = this.state;
+    if (!error) return this.props.children;
+
+    return (
+      <div className="bg-red-50 p-4 rounded-lg" role="alert">
+        <h2 className="font-medium text-red-800">This page crashed</h2>
+        <p className="mt-1 text-sm text-red-700 break-words">{error.message}</p>
+        <div className="mt-3 flex space-x-4 text-sm">
+          <button
+            type="button"
+            onClick={() => this.setState({ error: null })}
+            className="font-medium text-red-800 underline hover:text-red-900"
+          >
+            Try again
+          </button>
+          <Link to="/" className="font-medium text-red-800 underline hover:text-red-900">
+            Go to the home page
+          </Link>
+        </div>
+      </div>
+    );
+  }
+}
+
+/**
+ * Catches render errors in the routed pages so the navigation stays usable.
+ * The boundary resets when the path changes.
+ */
+export function RouteErrorBoundary({ children }: ErrorBoundaryProps) {
+  const { pathname } = useLocation();
+  return <ErrorBoundary key={pathname}>{children}</ErrorBoundary>;
+}
@@ -0,0 +1,83 @@
+import { useState } from 'react';
+import { Clock } from 'lucide-react';
+import { useNow } from '../hooks/useNow';
+import { ExpiryStatus, TimeZoneMode, formatCountdown, formatExpiry, getExpiryStatus } from '../utils/expiry';
+
+const BADGE_STYLES: Record<ExpiryStatus, string> = {
+  none: 'bg-gray-100 text-gray-600',
+  active: 'bg-green-100 text-green-700',
+  'expiring-soon': 'bg-yellow-100 text-yellow-800',
+  expired: 'bg-red-100 text-red-700',
+};
+
+// Tick every second only while the countdown shows seconds or minutes
+function useExpiryClock(expiry: number) {
+  const status = getExpiryStatus(expiry);
+  const now = useNow(status === 'expiring-soon' ? 1000 : status === 'active' ? 60_000 : null);
+  return { now, status: getExpiryStatus(expiry, now) };
+}
+
+function describeStatus(expiry: number, status: ExpiryStatus, now: number): string {
+  switch (status) {
+    case 'none':
+      return 'No expiry';
+    case 'expired':
+      return 'Expired';
+    default:
+      return `Expires in ${formatCountdown(expiry * 1000 - now)}`;
+  }
+}
+
+interface ExpiryBadgeProps {
+  /** Unix seconds, 0 for no expiry */
+  expiry: number;
+  /** Hide the badge for tokens that never expire */
+  hideNone?: boolean;
+}
+
+/**
+ * Pill showing whether a token is active, expiring soon or expired, with a
+ * live countdown
+ */
+export function ExpiryBadge({ expiry, hideNone = false }: ExpiryBadgeProps) {
+  const { now, status } = useExpiryClock(expiry);
+  if (status === 'none' && hideNone) return null;
+
+  return (
+    <span
+      className={`inline-flex items-center rounded-full px-2 py-0.5 text-xs font-medium ${BADGE_STYLES[status]}`}
+      title={formatExpiry(expiry)}
+    >
+      {describeStatus(expiry, status, now)}
+    </span>
+  );
+}
+
+/**
+ * Expiry date with a local/UTC toggle and a live countdown, for the token page
+ */
+export function ExpiryDetails({ expiry }: { expiry: number }) {
+  const [mode, setMode] = useState<TimeZoneMode>('local');
+  const { now, status } = useExpiryClock(expiry);
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center">
+        <Clock className="h-4 w-4 mr-1 text-gray-400" />
+        <span>{formatExpiry(expiry, mode)}</span>
+        {status !== 'none' && (
+          <button
+            type="button"
+            onClick={() => setMode(mode === 'local' ? 'utc' : 'local')}
+            className="ml-2 text-xs text-indigo-600 hover:text-indigo-500"
+          >
+            Show {mode === 'local' ? 'UTC' : 'local time'}
+          </button>
+        )}
+      </div>
+      <span className={`inline-flex items-center rounded-full px-2 py-0.5 text-xs font-medium ${BADGE_STYLES[status]}`}>
+        {describeStatus(expiry, status, now)}
+      </span>
+    </div>
+  );
+}
@@ -0,0 +1,35 @@
+import { Download } from 'lucide-react';
+import type { ExportFormat } from '../utils/exportData';
+
+interface ExportButtonsProps {
+  onExport: (format: ExportFormat) => void;
+  /** Accessible description of what is exported, e.g. "token table" */
+  subject: string;
+  /** Disables the buttons, with this as the explanation shown on hover */
+  disabledReason?: string;
+}
+
+const FORMATS: { format: ExportFormat; label: string }[] = [
+  { format: 'csv', label: 'CSV' },
+  { format: 'json', label: 'JSON' },
+];
+
+export function ExportButtons({ onExport, subject, disabledReason }: ExportButtonsProps) {
+  return (
+    <div className="inline-flex items-center space-x-2">
+      {FORMATS.map(({ format, label }) => (
+        <button
+          key={format}
+          type="button"
+          onClick={() => onExport(format)}
+          disabled={disabledReason !== undefined}
+          title={disabledReason}
+          aria-label={`Export ${subject} as ${label}`}
+          className="inline-flex items-center px-3 py-1.5 rounded-md border border-gray-300 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+        >
+          <Download className="h-4 w-4 mr-1" /> {label}
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,171 @@
+import { useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { Users } from 'lucide-react';
+import { useEventIndex } from '../hooks/useEventIndex';
+import { holderIndex } from '../services/holderIndex';
+import { amountToExactString, toAmount } from '../utils/amount';
+import { balanceHistogram, getHolderStats, shareOf } from '../utils/holderStats';
+import { shortenAddress } from '../utils/stringUtils';
+import { AmountDisplay } from './AmountDisplay';
+import { BarChart } from './BarChart';
+import { ContractErrorState } from './ContractErrorState';
+import { IndexSyncStatus } from './IndexSyncStatus';
+import { LineChart } from './LineChart';
+import { StatCard } from './StatCard';
+
+const TOP_HOLDERS = 20;
+
+function formatShare(share: number): string {
+  return `${(share * 100).toFixed(share > 0 && share < 0.001 ? 3 : 1)}%`;
+}
+
+interface HoldersPanelProps {
+  contract: string;
+  decimals: number;
+  symbol?: string;
+}
+
+/**
+ * Holder leaderboard, distribution and supply history of a points contract,
+ * reconstructed from its Transfer events
+ */
+export function HoldersPanel({ contract, decimals, symbol }: HoldersPanelProps) {
+  const { state: index, progress, error, isLoading, isFetching, refetch } = useEventIndex(holderIndex, contract);
+  const stats = useMemo(() => (index ? getHolderStats(index.balances) : null), [index]);
+  const histogram = useMemo(
+    () => (stats ? balanceHistogram(stats.holders, decimals) : []),
+    [stats, decimals]
+  );
+  const supplyPoints = useMemo(() => {
+    if (!index) return [];
+    const points = index.supplyHistory.map(({ block, supply }) => ({
+      x: block,
+      // Approximate is fine for plotting
+      y: Number(amountToExactString(toAmount(supply, decimals))),
+    }));
+    // Extend the last value to the indexed block so the chart ends now
+    const last = points[points.length - 1];
+    if (last && last.x < index.indexedBlock) points.push({ x: index.indexedBlock, y: last.y });
+    return points;
+  }, [index, decimals]);
+
+  if (error && !index) {
+    return (
+      <ContractErrorState
+        error={error}
+        fallbackMessage="Failed to index the holders of this contract"
+        onRetry={refetch}
+        retrying={isFetching}
+      />
+    );
+  }
+
+  if (isLoading && !index) {
+    return <p className="text-sm text-gray-500">Loading holders…</p>;
+  }
+
+  if (!index || !stats) return null;
+
+  const formatPoints = (value: number) => new Intl.NumberFormat(undefined, { notation: 'compact' }).format(value);
+
+  return (
+    <div className="space-y-6">
+      <IndexSyncStatus
+        indexedBlock={index.indexedBlock}
+        progress={progress}
+        source="Transfer events"
+        syncedMessage="Balances reconstructed from Transfer events up to block"
+      />
+
+      <dl className="grid grid-cols-2 gap-4 sm:grid-cols-4">
+        <StatCard label="Holders" value={stats.holders.length.toLocaleString()} />
+        <StatCard label="Largest holder" value={formatShare(stats.topHolderShare)} />
+        <StatCard label="Top 10 holders" value={formatShare(stats.top10Share)} />
+        <StatCard
+          label="Gini coefficient"
+          value={stats.gini.toFixed(2)}
+          hint="0 means everyone holds the same amount, 1 means one holder has everything"
+        />
+      </dl>
+
+      <div className="bg-white shadow rounded-lg overflow-hidden">
+        <div className="px-4 py-5 sm:p-6">
+          <div className="flex items-center mb-4">
+            <Users className="h-5 w-5 text-indigo-600 mr-2" />
+            <h2 className="text-lg font-medium text-gray-900">Top holders</h2>
+          </div>
+          {stats.holders.length === 0 ? (
+            <p className="text-sm text-gray-500 italic">No one holds these points yet.</p>
+          ) : (
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500">
+                  <th className="py-2 pr-4 font-medium">#</th>
+                  <th className="py-2 pr-4 font-medium">Address</th>
+                  <th className="py-2 pr-4 font-medium text-right">Balance</th>
+                  <th className="py-2 font-medium text-right">Share</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {stats.holders.slice(0, TOP_HOLDERS).map((holder, rank) => (
+                  <tr key={holder.address}>
+                    <td className="py-2 pr-4 text-gray-500">{rank + 1}</td>
+                    <td className="py-2 pr-4">
+                      <Link
+                        to={`/points/${contract}/activity/${holder.address}`}
+                        className="font-mono text-indigo-600 hover:text-indigo-500"
+                        title={holder.address}
+                      >
+                        {shortenAddress(holder.address, 6)}
+                      </Link>
+                    </td>
+                    <td className="py-2 pr-4 text-right text-gray-900">
+                      <AmountDisplay amount={toAmount(holder.balance, decimals)} symbol={symbol} />
+                    </td>
+                    <td className="py-2 text-right text-gray-500">
+                      {formatShare(shareOf(holder.balance, stats.totalHeld))}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        <div className="bg-white shadow rounded-lg overflow-hidden">
+          <div className="px-4 py-5 sm:p-6">
+            <h2 className="text-lg font-medium text-gray-900">Balance distribution</h2>
+            <p className="mb-4 text-sm text-gray-500">Holders by balance{symbol ? ` in ${symbol}` : ''}</p>
+            {histogram.length === 0 ? (
+              <p className="text-sm text-gray-500 italic">No holders to chart.</p>
+            ) : (
+              <BarChart
+                data={histogram.map(bucket => ({ label: bucket.label, value: bucket.count }))}
+                formatValue={count => `${count.toLocaleString()} holder${count === 1 ? '' : 's'}`}
+              />
+            )}
+          </div>
+        </div>
+
+        <div className="bg-white shadow rounded-lg overflow-hidden">
+          <div className="px-4 py-5 sm:p-6">
+            <h2 className="text-lg font-medium text-gray-900">Supply over time</h2>
+            <p className="mb-4 text-sm text-gray-500">Total supply after each mint and burn, by block</p>
+            {supplyPoints.length === 0 ? (
+              <p className="text-sm text-gray-500 italic">No mints or burns yet.</p>
+            ) : (
+              <LineChart
+                points={supplyPoints}
+                step
+                formatX={block => `Block ${block.toLocaleString()}`}
+                formatY={formatPoints}
+              />
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
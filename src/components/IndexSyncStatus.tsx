@@ -0,0 +1,41 @@
+interface IndexSyncStatusProps {
+  /** Last block included in the index */
+  indexedBlock: number;
+  progress: { startBlock: number; latestBlock: number } | null;
+  /** What is being indexed, e.g. "Transfer events" */
+  source: string;
+  /** Sentence shown once the index is up to date, ending before the block number */
+  syncedMessage: string;
+}
+
+/**
+ * Progress bar while an event index catches up with the chain, and the
+ * indexed block once it has
+ */
+export function IndexSyncStatus({ indexedBlock, progress, source, syncedMessage }: IndexSyncStatusProps) {
+  if (!progress || indexedBlock >= progress.latestBlock) {
+    return (
+      <p className="text-xs text-gray-500">
+        {syncedMessage} {indexedBlock.toLocaleString()}.
+      </p>
+    );
+  }
+
+  const total = Math.max(1, progress.latestBlock - progress.startBlock + 1);
+  const done = Math.max(0, indexedBlock - progress.startBlock + 1);
+  const percent = Math.min(100, Math.round((done / total) * 100));
+
+  return (
+    <div className="bg-white shadow rounded-lg px-4 py-3">
+      <div className="flex justify-between text-sm text-gray-700">
+        <span>Indexing {source}…</span>
+        <span>
+          Block {Math.max(indexedBlock, 0).toLocaleString()} of {progress.latestBlock.toLocaleString()} ({percent}%)
+        </span>
+      </div>
+      <div className="mt-2 h-2 rounded-full bg-gray-100">
+        <div className="h-2 rounded-full bg-indigo-500 transition-all" style={{ width: `${percent}%` }} />
+      </div>
+    </div>
+  );
+}
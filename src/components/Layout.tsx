@@ -1,6 +1,10 @@
 import React from 'react';
 import { Link } from 'react-router-dom';
-import { Coins, Package } from 'lucide-react';
+import { Coins, Gift } from 'lucide-react';
+import { LiveUpdatesIndicator } from './LiveUpdatesIndicator';
+import { NetworkSwitcher } from './NetworkSwitcher';
+import { RpcHealthIndicator } from './RpcHealthIndicator';
+import { WalletButton } from './WalletButton';
 
 interface LayoutProps {
   children: React.ReactNode;
@@ -18,6 +22,16 @@ export function Layout({ children }: LayoutProps) {
                 <span className="ml-2 text-xl font-bold text-gray-900">InfiniRewards</span>
               </Link>
             </div>
+            <div className="flex items-center space-x-4">
+              <Link to="/account" className="flex items-center text-sm font-medium text-gray-700 hover:text-indigo-600">
+                <Gift className="h-4 w-4 mr-1" />
+                My Rewards
+              </Link>
+              <NetworkSwitcher />
+              <RpcHealthIndicator />
+              <LiveUpdatesIndicator />
+              <WalletButton />
+            </div>
           </div>
         </div>
       </nav>
@@ -26,4 +40,4 @@ export function Layout({ children }: LayoutProps) {
       </main>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,63 @@
+export interface LineChartPoint {
+  x: number;
+  y: number;
+}
+
+interface LineChartProps {
+  /** Points sorted by x */
+  points: LineChartPoint[];
+  formatX?: (x: number) => string;
+  formatY?: (y: number) => string;
+  /** Hold each value until the next point instead of interpolating */
+  step?: boolean;
+  className?: string;
+}
+
+const WIDTH = 1000;
+const HEIGHT = 200;
+
+/**
+ * Single series line chart with the range of both axes shown as labels
+ */
+export function LineChart({ points, formatX = String, formatY = String, step = false, className = 'h-48' }: LineChartProps) {
+  if (points.length === 0) return null;
+
+  const minX = points[0].x;
+  const maxX = points[points.length - 1].x;
+  const maxY = Math.max(0, ...points.map(point => point.y));
+  const scaleX = (x: number) => (maxX === minX ? WIDTH : ((x - minX) / (maxX - minX)) * WIDTH);
+  const scaleY = (y: number) => (maxY === 0 ? HEIGHT : HEIGHT - (y / maxY) * HEIGHT);
+
+  const path = points.map((point, index) => {
+    const x = scaleX(point.x);
+    const y = scaleY(point.y);
+    if (index === 0) return `M ${x} ${y}`;
+    return step ? `H ${x} V ${y}` : `L ${x} ${y}`;
+  }).join(' ');
+  // A single point still gets a flat line across the chart
+  const line = points.length === 1 ? `M 0 ${scaleY(points[0].y)} H ${WIDTH}` : path;
+
+  return (
+    <div>
+      <div className="flex">
+        <div className="flex flex-col justify-between pr-2 text-right text-xs text-gray-500">
+          <span>{formatY(maxY)}</span>
+          <span>{formatY(0)}</span>
+        </div>
+        <svg
+          viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+          preserveAspectRatio="none"
+          className={`flex-1 border-b border-l border-gray-200 ${className}`}
+          role="img"
+          aria-label={`From ${formatY(points[0].y)} at ${formatX(minX)} to ${formatY(points[points.length - 1].y)} at ${formatX(maxX)}`}
+        >
+          <path d={line} fill="none" className="stroke-indigo-500" strokeWidth={2} vectorEffect="non-scaling-stroke" />
+        </svg>
+      </div>
+      <div className="mt-1 flex justify-between pl-10 text-xs text-gray-500">
+        <span>{formatX(minX)}</span>
+        <span>{formatX(maxX)}</span>
+      </div>
+    </div>
+  );
+}
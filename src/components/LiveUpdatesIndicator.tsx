@@ -0,0 +1,46 @@
+import { Pause, Play } from 'lucide-react';
+import { useBlockWatcher } from '../hooks/useBlockWatcher';
+import { useNetwork } from '../hooks/useNetwork';
+import { useNow } from '../hooks/useNow';
+import { formatCountdown } from '../utils/expiry';
+
+/**
+ * Shows how long ago the latest block was checked, and pauses or resumes
+ * live updates of contract data
+ */
+export function LiveUpdatesIndicator() {
+  const { network } = useNetwork();
+  const { blockNumber, checkedAt, paused, mode, lastError, setPaused } = useBlockWatcher(network.id);
+  const now = useNow(paused ? null : 1000);
+
+  const label = paused
+    ? 'Live updates paused'
+    : checkedAt === 0
+      ? 'Connecting…'
+      : `Updated ${formatCountdown(now - checkedAt)} ago`;
+
+  const details = [
+    blockNumber !== null ? `Block ${blockNumber.toLocaleString()}` : null,
+    paused ? null : mode === 'websocket' ? 'Subscribed to new blocks' : 'Polling for new blocks',
+    lastError ? `Last error: ${lastError}` : null,
+  ].filter(Boolean).join(' · ');
+
+  return (
+    <div className="flex items-center text-xs text-gray-500" title={details || undefined}>
+      <span
+        className={`h-2 w-2 rounded-full mr-1.5 ${paused ? 'bg-gray-300' : lastError ? 'bg-yellow-400' : 'bg-green-500 animate-pulse'}`}
+      />
+      <span className="hidden md:inline whitespace-nowrap">{label}</span>
+      <button
+        type="button"
+        onClick={() => setPaused(!paused)}
+        className="ml-1 rounded p-1 text-gray-500 hover:text-indigo-600"
+        title={paused ? 'Resume live updates' : 'Pause live updates'}
+        aria-label={paused ? 'Resume live updates' : 'Pause live updates'}
+        aria-pressed={paused}
+      >
+        {paused ? <Play className="h-3.5 w-3.5" /> : <Pause className="h-3.5 w-3.5" />}
+      </button>
+    </div>
+  );
+}
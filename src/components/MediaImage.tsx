@@ -0,0 +1,46 @@
+import { ReactNode, useMemo, useState } from 'react';
+import { ImageOff } from 'lucide-react';
+import { resolveMediaUri, unwrapUri } from '../utils/mediaUri';
+
+interface MediaImageProps {
+  /** Media URI from metadata: https://, ipfs://, ar://, data:, SVG markup or `{ uri }` */
+  src: unknown;
+  alt: string;
+  className?: string;
+  /**
+   * Shown when no candidate URL loads. Defaults to a placeholder icon; pass
+   * `null` to render nothing.
+   */
+  fallback?: ReactNode;
+  fallbackClassName?: string;
+}
+
+/**
+ * Image that resolves decentralized storage URIs and moves on to the next
+ * gateway when one fails to load
+ */
+export function MediaImage({ src, alt, className = '', fallback, fallbackClassName = '' }: MediaImageProps) {
+  const uri = unwrapUri(src);
+  const candidates = useMemo(() => resolveMediaUri(uri), [uri]);
+  // Failures only count for the candidates they happened on, so a new src starts over
+  const [failures, setFailures] = useState({ candidates, count: 0 });
+  const attempt = failures.candidates === candidates ? failures.count : 0;
+
+  if (attempt >= candidates.length) {
+    if (fallback !== undefined) return <>{fallback}</>;
+    return (
+      <div className={`flex items-center justify-center bg-gray-100 text-gray-300 ${fallbackClassName}`}>
+        <ImageOff className="h-10 w-10" aria-label={`${alt} unavailable`} />
+      </div>
+    );
+  }
+
+  return (
+    <img
+      src={candidates[attempt]}
+      alt={alt}
+      className={className}
+      onError={() => setFailures({ candidates, count: attempt + 1 })}
+    />
+  );
+}
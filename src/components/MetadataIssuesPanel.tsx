@@ -0,0 +1,54 @@
+import { AlertTriangle } from 'lucide-react';
+import { Link } from 'react-router-dom';
+import type { MetadataIssue } from '../utils/metadataSchema';
+
+export interface MetadataIssueGroup {
+  /** What the issues belong to, e.g. "Collection" or "Token #3" */
+  label: string;
+  to?: string;
+  issues: MetadataIssue[];
+}
+
+interface MetadataIssuesPanelProps {
+  groups: MetadataIssueGroup[];
+}
+
+/**
+ * Lists missing and invalid metadata fields so issuers can fix their data.
+ * Renders nothing when all metadata is valid.
+ */
+export function MetadataIssuesPanel({ groups }: MetadataIssuesPanelProps) {
+  const withIssues = groups.filter(group => group.issues.length > 0);
+  if (withIssues.length === 0) return null;
+
+  const all = withIssues.flatMap(group => group.issues);
+  const errors = all.filter(issue => issue.severity === 'error').length;
+  const warnings = all.length - errors;
+
+  return (
+    <details className="bg-yellow-50 border border-yellow-200 rounded-lg">
+      <summary className="flex items-center cursor-pointer px-4 py-3 text-sm font-medium text-yellow-800">
+        <AlertTriangle className="h-4 w-4 mr-2 flex-shrink-0" />
+        Metadata issues: {errors} {errors === 1 ? 'error' : 'errors'}, {warnings} {warnings === 1 ? 'warning' : 'warnings'}
+      </summary>
+      <div className="px-4 pb-4 space-y-3">
+        {withIssues.map(group => (
+          <div key={group.label}>
+            <div className="text-sm font-medium text-gray-900">
+              {group.to ? (
+                <Link to={group.to} className="text-indigo-600 hover:text-indigo-500">{group.label}</Link>
+              ) : group.label}
+            </div>
+            <ul className="mt-1 space-y-0.5 text-xs">
+              {group.issues.map((issue, index) => (
+                <li key={index} className={issue.severity === 'error' ? 'text-red-700' : 'text-yellow-800'}>
+                  <span className="font-mono">{issue.field}</span> {issue.message}
+                </li>
+              ))}
+            </ul>
+          </div>
+        ))}
+      </div>
+    </details>
+  );
+}
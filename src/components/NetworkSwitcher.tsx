@@ -0,0 +1,25 @@
+import { Globe } from 'lucide-react';
+import { isNetworkId, networkIds, networks } from '../config/networks';
+import { useNetwork } from '../hooks/useNetwork';
+
+export function NetworkSwitcher() {
+  const { network, setNetwork } = useNetwork();
+
+  return (
+    <label className="flex items-center space-x-2 text-sm text-gray-700">
+      <Globe className="h-4 w-4 text-indigo-600" />
+      <span className="sr-only">Network</span>
+      <select
+        value={network.id}
+        onChange={(e) => {
+          if (isNetworkId(e.target.value)) setNetwork(e.target.value);
+        }}
+        className="rounded-md border border-gray-300 bg-white py-1 pl-2 pr-8 text-sm focus:border-indigo-500 focus:outline-none focus:ring-1 focus:ring-indigo-500"
+      >
+        {networkIds.map(id => (
+          <option key={id} value={id}>{networks[id].name}</option>
+        ))}
+      </select>
+    </label>
+  );
+}
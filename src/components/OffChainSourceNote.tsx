@@ -0,0 +1,30 @@
+import { ExternalLink, ShieldCheck } from 'lucide-react';
+import type { OffChainSource } from '../utils/metadataDecoder';
+
+/**
+ * Says where off-chain metadata was loaded from and whether it was verified
+ */
+export function OffChainSourceNote({ source }: { source: OffChainSource }) {
+  // data: URIs are inlined documents, not something to navigate to
+  const href = /^https?:\/\//i.test(source.url) ? source.url : undefined;
+
+  return (
+    <div className="mt-2 flex flex-wrap items-center text-xs text-gray-500">
+      <span className="mr-1">Loaded from</span>
+      <a
+        href={href}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="text-indigo-600 hover:text-indigo-500 inline-flex items-center break-all"
+        title={source.url}
+      >
+        {source.uri} <ExternalLink className="ml-1 h-3 w-3" />
+      </a>
+      {source.verified && (
+        <span className="ml-2 inline-flex items-center text-green-700">
+          <ShieldCheck className="mr-1 h-3 w-3" /> content hash verified
+        </span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,31 @@
+import { toAmount } from '../utils/amount';
+import { AmountDisplay } from './AmountDisplay';
+
+interface PointsAmountProps {
+  /** Raw units of the points contract */
+  amount: bigint;
+  /** Decimals of the points contract; undefined until its details load */
+  decimals: number | undefined;
+  /** True when the points contract's details failed to load */
+  failed?: boolean;
+  symbol?: string;
+  compact?: boolean;
+  copyable?: boolean;
+}
+
+/**
+ * A points amount in display units. Until the decimals are known it shows a
+ * placeholder, or the raw value labelled as such if they could not be read.
+ */
+export function PointsAmount({ amount, decimals, failed = false, symbol, compact, copyable }: PointsAmountProps) {
+  if (decimals === undefined) {
+    return failed ? (
+      <span title="Raw on-chain value; the points contract's decimals could not be read">
+        {amount.toString()} <span className="text-gray-500">raw</span>
+      </span>
+    ) : (
+      <span className="text-gray-400" title="Loading the points contract">…</span>
+    );
+  }
+  return <AmountDisplay amount={toAmount(amount, decimals)} symbol={symbol} compact={compact} copyable={copyable} />;
+}
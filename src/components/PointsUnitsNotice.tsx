@@ -0,0 +1,29 @@
+interface PointsUnitsNoticeProps {
+  /** Error of the points contract details query, if it failed */
+  error: unknown;
+  retrying: boolean;
+  onRetry: () => void;
+}
+
+/**
+ * Explains why prices are not in display units while the linked points
+ * contract is loading or could not be read
+ */
+export function PointsUnitsNotice({ error, retrying, onRetry }: PointsUnitsNoticeProps) {
+  if (!error) {
+    return <p className="text-sm text-gray-500">Loading the points contract to show prices…</p>;
+  }
+  return (
+    <p className="rounded-md bg-amber-50 p-3 text-sm text-amber-800">
+      The points contract could not be read, so prices are shown in raw on-chain units.{' '}
+      <button
+        type="button"
+        onClick={onRetry}
+        disabled={retrying}
+        className="font-medium text-amber-900 underline hover:text-amber-700 disabled:opacity-50"
+      >
+        {retrying ? 'Retrying…' : 'Retry'}
+      </button>
+    </p>
+  );
+}
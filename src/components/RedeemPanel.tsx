@@ -0,0 +1,234 @@
+import { useState } from 'react';
+import { CheckCircle, ExternalLink, Gift, Loader2, XCircle } from 'lucide-react';
+import { usePointsBalance } from '../hooks/useContractData';
+import { useNetwork } from '../hooks/useNetwork';
+import { useNow } from '../hooks/useNow';
+import { useWallet } from '../hooks/useWallet';
+import { NO_EXPIRY, formatExpiry, isExpired } from '../utils/expiry';
+import { PointsAmount } from './PointsAmount';
+import { queryCache } from '../services/queryCache';
+import { isSameChain } from '../services/walletService';
+import {
+  buildPurchaseCalls,
+  getPurchaseCost,
+  submitCalls,
+  waitForAcceptance,
+} from '../services/transactionService';
+
+interface RedeemPanelProps {
+  collectibleContract: string;
+  pointsContract: string;
+  tokenId: string;
+  /** Price of one collectible in raw points units */
+  unitPrice: bigint;
+  /** Unix seconds, 0 for no expiry; expired tokens cannot be redeemed */
+  expiry?: number;
+  /** Undefined until the points contract loads; redeeming waits for it */
+  pointsDecimals: number | undefined;
+  pointsSymbol?: string;
+}
+
+type RedeemState =
+  | { step: 'idle' }
+  | { step: 'signing' }
+  | { step: 'pending'; hash: string }
+  | { step: 'accepted'; hash: string }
+  | { step: 'failed'; message: string; hash?: string };
+
+export function RedeemPanel({
+  collectibleContract,
+  pointsContract,
+  tokenId,
+  unitPrice,
+  expiry = NO_EXPIRY,
+  pointsDecimals,
+  pointsSymbol = 'points',
+}: RedeemPanelProps) {
+  const { network } = useNetwork();
+  const { account, address, connector, status: walletStatus, chainMismatch, switchChain } = useWallet();
+  const { data: balance, isLoading: balanceLoading } = usePointsBalance(pointsContract, address);
+  const [quantity, setQuantity] = useState(1);
+  const [state, setState] = useState<RedeemState>({ step: 'idle' });
+
+  const cost = getPurchaseCost({ amount: BigInt(quantity), unitPrice });
+  const insufficient = balance !== undefined && balance < cost;
+  const busy = state.step === 'signing' || state.step === 'pending';
+  // Re-check every second so the button locks the moment the token expires
+  const now = useNow(expiry === NO_EXPIRY ? null : 1000);
+  const expired = isExpired(expiry, now);
+
+  const explorerLink = (hash: string) =>
+    network.explorerUrl ? `${network.explorerUrl}/tx/${hash}` : null;
+
+  const handleRedeem = async () => {
+    if (!account || !address || chainMismatch) return;
+    setState({ step: 'signing' });
+
+    let hash: string | undefined;
+    try {
+      // Receipts are polled on the selected network, so never sign for another
+      // one; the wallet may have switched without telling us
+      const walletChainId = await connector?.getChainId?.();
+      if (walletChainId !== undefined && !isSameChain(walletChainId, network.chainId)) {
+        throw new Error(`Your wallet is not on ${network.name}. Switch it to ${network.name} and try again.`);
+      }
+
+      const calls = buildPurchaseCalls({
+        collectibleContract,
+        pointsContract,
+        user: address,
+        tokenId,
+        amount: BigInt(quantity),
+        unitPrice,
+      }, network.id);
+
+      hash = await submitCalls(account, calls);
+      setState({ step: 'pending', hash });
+
+      const outcome = await waitForAcceptance(hash, network.id);
+      if (outcome.status === 'accepted') {
+        setState({ step: 'accepted', hash });
+      } else {
+        setState({ step: 'failed', hash, message: outcome.reason || 'Transaction reverted' });
+      }
+    } catch (err) {
+      console.error('Error redeeming collectible:', err);
+      setState({
+        step: 'failed',
+        hash,
+        message: err instanceof Error ? err.message : 'Transaction failed',
+      });
+    } finally {
+      // Supply and balances may have changed either way
+      queryCache.invalidateQueries({ network: network.id, contract: collectibleContract });
+      queryCache.invalidateQueries({ network: network.id, contract: pointsContract });
+    }
+  };
+
+  return (
+    <div className="bg-white shadow rounded-lg overflow-hidden">
+      <div className="px-4 py-5 sm:p-6 space-y-4">
+        <div className="flex items-center">
+          <Gift className="h-5 w-5 text-indigo-600 mr-2" />
+          <h3 className="text-lg font-medium text-gray-900">Redeem with points</h3>
+        </div>
+
+        {expired && state.step !== 'accepted' ? (
+          <p className="text-sm text-red-600">
+            This collectible expired on {formatExpiry(expiry)} and can no longer be redeemed.
+          </p>
+        ) : walletStatus !== 'connected' ? (
+          <p className="text-sm text-gray-500">Connect a wallet to redeem this collectible.</p>
+        ) : (
+          <>
+            <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+              <label className="block">
+                <span className="text-sm font-medium text-gray-500">Quantity</span>
+                <input
+                  type="number"
+                  min={1}
+                  value={quantity}
+                  disabled={busy}
+                  onChange={(e) => setQuantity(Math.max(1, Math.floor(Number(e.target.value) || 1)))}
+                  className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-1.5 text-sm focus:border-indigo-500 focus:outline-none focus:ring-1 focus:ring-indigo-500"
+                />
+              </label>
+              <div>
+                <div className="text-sm font-medium text-gray-500">Total cost</div>
+                <div className="mt-2 text-sm text-gray-900">
+                  <PointsAmount amount={cost} decimals={pointsDecimals} symbol={pointsSymbol} copyable />
+                </div>
+              </div>
+              <div>
+                <div className="text-sm font-medium text-gray-500">Your balance</div>
+                <div className={`mt-2 text-sm ${insufficient ? 'text-red-600' : 'text-gray-900'}`}>
+                  {balanceLoading
+                    ? 'Loading…'
+                    : balance !== undefined
+                      ? <PointsAmount amount={balance} decimals={pointsDecimals} symbol={pointsSymbol} />
+                      : '—'}
+                </div>
+              </div>
+            </div>
+
+            <div className="rounded-md bg-gray-50 p-3 text-xs text-gray-600 space-y-1">
+              <div>This transaction will:</div>
+              <div>
+                1. Approve the collection to spend{' '}
+                <PointsAmount amount={cost} decimals={pointsDecimals} symbol={pointsSymbol} />
+              </div>
+              <div>2. Purchase {quantity} × token #{tokenId}</div>
+            </div>
+
+            {insufficient && (
+              <p className="text-sm text-red-600">You do not have enough points for this redemption.</p>
+            )}
+
+            {chainMismatch && (
+              <div className="flex items-center justify-between rounded-md bg-amber-50 p-3 text-sm text-amber-800">
+                <span>Your wallet is on a different network than {network.name}.</span>
+                {connector?.switchChain && (
+                  <button
+                    type="button"
+                    onClick={() => switchChain()}
+                    className="ml-3 font-medium text-amber-900 underline hover:text-amber-700"
+                  >
+                    Switch to {network.name}
+                  </button>
+                )}
+              </div>
+            )}
+
+            <button
+              onClick={handleRedeem}
+              disabled={busy || insufficient || balance === undefined || chainMismatch || pointsDecimals === undefined}
+              className="flex items-center justify-center rounded-md bg-indigo-600 px-4 py-2 text-sm font-medium text-white hover:bg-indigo-500 disabled:opacity-50"
+            >
+              {busy && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {state.step === 'signing' ? 'Confirm in wallet…' : state.step === 'pending' ? 'Waiting for acceptance…' : 'Redeem'}
+            </button>
+          </>
+        )}
+
+        {state.step === 'pending' && (
+          <TransactionLink label="Transaction submitted" hash={state.hash} href={explorerLink(state.hash)} />
+        )}
+        {state.step === 'accepted' && (
+          <div className="flex items-start rounded-md bg-green-50 p-3 text-sm text-green-800">
+            <CheckCircle className="h-5 w-5 mr-2 flex-shrink-0" />
+            <div>
+              Redeemed successfully.
+              <TransactionLink label="View transaction" hash={state.hash} href={explorerLink(state.hash)} />
+            </div>
+          </div>
+        )}
+        {state.step === 'failed' && (
+          <div className="flex items-start rounded-md bg-red-50 p-3 text-sm text-red-700">
+            <XCircle className="h-5 w-5 mr-2 flex-shrink-0" />
+            <div className="break-words min-w-0">
+              {state.message}
+              {state.hash && (
+                <TransactionLink label="View transaction" hash={state.hash} href={explorerLink(state.hash)} />
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function TransactionLink({ label, hash, href }: { label: string; hash: string; href: string | null }) {
+  return (
+    <div className="mt-1 text-xs text-gray-600 break-all">
+      {label}:{' '}
+      {href ? (
+        <a href={href} target="_blank" rel="noopener noreferrer" className="text-indigo-600 hover:text-indigo-500 inline-flex items-center">
+          {hash} <ExternalLink className="ml-1 h-3 w-3" />
+        </a>
+      ) : (
+        <span className="font-mono">{hash}</span>
+      )}
+    </div>
+  );
+}
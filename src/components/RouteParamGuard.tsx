@@ -0,0 +1,33 @@
+import React from 'react';
+import { useParams } from 'react-router-dom';
+import { NotFound } from '../pages/NotFound';
+import { parseAddress } from '../utils/address';
+import { parseTokenId } from '../utils/tokenId';
+
+/**
+ * Checks the `:address`, `:account` and `:tokenId` parameters of the current route before
+ * rendering the page, so malformed links get a not-found page instead of a
+ * failed RPC call
+ */
+export function RouteParamGuard({ children }: { children: React.ReactNode }) {
+  const { address, account, tokenId } = useParams<{ address?: string; account?: string; tokenId?: string }>();
+
+  for (const value of [address, account]) {
+    if (value === undefined) continue;
+    const { error } = parseAddress(value);
+    if (error !== undefined) {
+      return <NotFound title="Invalid address" message={`"${value}" is not a Starknet address. ${error}.`} />;
+    }
+  }
+
+  if (tokenId !== undefined && parseTokenId(tokenId) === null) {
+    return (
+      <NotFound
+        title="Invalid token id"
+        message={`"${tokenId}" is not a token id. Token ids are whole numbers below 2^256, in decimal or 0x hex.`}
+      />
+    );
+  }
+
+  return <>{children}</>;
+}
@@ -0,0 +1,101 @@
+import { useEffect, useRef, useState } from 'react';
+import { Activity } from 'lucide-react';
+import { useNetwork } from '../hooks/useNetwork';
+import { useRpcHealth } from '../hooks/useRpcHealth';
+import { EndpointHealth, EndpointStatus, summarizeHealth } from '../services/rpcPool';
+
+const DOT_STYLES: Record<EndpointStatus, string> = {
+  unknown: 'bg-gray-300',
+  healthy: 'bg-green-500',
+  degraded: 'bg-yellow-400',
+  down: 'bg-red-500',
+};
+
+const STATUS_LABELS: Record<EndpointStatus, string> = {
+  unknown: 'Checking',
+  healthy: 'Healthy',
+  degraded: 'Degraded',
+  down: 'Down',
+};
+
+// Only show the host: RPC URLs often carry an API key in the path
+function endpointHost(url: string): string {
+  try {
+    return new URL(url).host;
+  } catch {
+    return url;
+  }
+}
+
+function EndpointRow({ endpoint }: { endpoint: EndpointHealth }) {
+  return (
+    <li className="py-2">
+      <div className="flex items-center justify-between">
+        <span className="flex items-center min-w-0">
+          <span className={`h-2 w-2 rounded-full mr-2 flex-shrink-0 ${DOT_STYLES[endpoint.status]}`} />
+          <span className="truncate font-mono text-xs text-gray-900">{endpointHost(endpoint.url)}</span>
+        </span>
+        <span className="ml-2 text-xs text-gray-500">{STATUS_LABELS[endpoint.status]}</span>
+      </div>
+      <div className="mt-0.5 ml-4 text-xs text-gray-500">
+        {endpoint.latencyMs !== null ? `${Math.round(endpoint.latencyMs)} ms` : '— ms'}
+        {' · '}
+        {Math.round(endpoint.errorRate * 100)}% errors
+        {' · '}
+        {endpoint.requests} requests
+      </div>
+      {endpoint.status !== 'healthy' && endpoint.lastError && (
+        <div className="mt-0.5 ml-4 text-xs text-red-600 break-words">{endpoint.lastError}</div>
+      )}
+    </li>
+  );
+}
+
+/**
+ * Dot in the navigation bar summarizing RPC health for the selected network,
+ * with per-endpoint latency and error rates on click
+ */
+export function RpcHealthIndicator() {
+  const { network } = useNetwork();
+  const endpoints = useRpcHealth(network.id);
+  const status = summarizeHealth(endpoints);
+  const [open, setOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close the panel when clicking elsewhere
+  useEffect(() => {
+    if (!open) return;
+    const handleClick = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [open]);
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        className="flex items-center rounded-md px-2 py-1.5 text-sm text-gray-700 hover:text-indigo-600"
+        title={`RPC: ${STATUS_LABELS[status]}`}
+        aria-expanded={open}
+      >
+        <Activity className="h-4 w-4 mr-1" />
+        <span className={`h-2 w-2 rounded-full ${DOT_STYLES[status]}`} />
+        <span className="sr-only">RPC status: {STATUS_LABELS[status]}</span>
+      </button>
+
+      {open && (
+        <div className="absolute right-0 z-10 mt-2 w-72 rounded-md bg-white p-3 shadow-lg ring-1 ring-black/5">
+          <div className="text-xs font-medium text-gray-500">{network.name} RPC endpoints</div>
+          <ul className="mt-1 divide-y divide-gray-100">
+            {endpoints.map(endpoint => (
+              <EndpointRow key={endpoint.url} endpoint={endpoint} />
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,15 @@
+interface StatCardProps {
+  label: string;
+  value: string;
+  /** Tooltip explaining the value */
+  hint?: string;
+}
+
+export function StatCard({ label, value, hint }: StatCardProps) {
+  return (
+    <div className="bg-white shadow rounded-lg px-4 py-5" title={hint}>
+      <dt className="text-sm font-medium text-gray-500">{label}</dt>
+      <dd className="mt-1 text-2xl font-semibold text-gray-900">{value}</dd>
+    </div>
+  );
+}
@@ -0,0 +1,33 @@
+export interface TabOption<T extends string> {
+  id: T;
+  label: string;
+}
+
+interface TabBarProps<T extends string> {
+  tabs: readonly TabOption<T>[];
+  selected: T;
+  onSelect: (tab: T) => void;
+}
+
+export function TabBar<T extends string>({ tabs, selected, onSelect }: TabBarProps<T>) {
+  return (
+    <nav className="flex space-x-6 border-b border-gray-200" role="tablist">
+      {tabs.map(({ id, label }) => (
+        <button
+          key={id}
+          type="button"
+          role="tab"
+          aria-selected={selected === id}
+          onClick={() => onSelect(id)}
+          className={`-mb-px border-b-2 px-1 pb-3 text-sm font-medium ${
+            selected === id
+              ? 'border-indigo-600 text-indigo-600'
+              : 'border-transparent text-gray-500 hover:border-gray-300 hover:text-gray-700'
+          }`}
+        >
+          {label}
+        </button>
+      ))}
+    </nav>
+  );
+}
@@ -0,0 +1,205 @@
+import { ChevronLeft, ChevronRight, Search, X } from 'lucide-react';
+import {
+  AvailabilityFilter,
+  ExpiryFilter,
+  SortOrder,
+  TokenFilters,
+  TokenSortKey,
+  hasActiveTokenFilters,
+} from '../utils/tokenFilters';
+
+const inputClassName =
+  'block w-full rounded-md border border-gray-300 px-3 py-1.5 text-sm focus:border-indigo-500 focus:outline-none focus:ring-1 focus:ring-indigo-500';
+
+interface TokenGridControlsProps {
+  filters: TokenFilters;
+  onChange: (changes: Partial<TokenFilters>) => void;
+  onReset: () => void;
+  /** Trait types and their values across the collection */
+  traitValues: Record<string, string[]>;
+  priceSymbol: string;
+  /** Disables the price bounds, e.g. while the price decimals are unknown */
+  priceDisabled?: boolean;
+  resultCount: number;
+  totalCount: number;
+}
+
+export function TokenGridControls({
+  filters,
+  onChange,
+  onReset,
+  traitValues,
+  priceSymbol,
+  priceDisabled = false,
+  resultCount,
+  totalCount,
+}: TokenGridControlsProps) {
+  const toggleTrait = (type: string, value: string) => {
+    const selected = filters.traits[type] ?? [];
+    const nextValues = selected.includes(value)
+      ? selected.filter(item => item !== value)
+      : [...selected, value];
+    onChange({ traits: { ...filters.traits, [type]: nextValues } });
+  };
+
+  return (
+    <div className="space-y-4 mb-6">
+      <div className="grid grid-cols-1 gap-3 sm:grid-cols-2 lg:grid-cols-4">
+        <label className="relative block sm:col-span-2">
+          <span className="sr-only">Search tokens</span>
+          <Search className="absolute left-2.5 top-2 h-4 w-4 text-gray-400" />
+          <input
+            type="search"
+            value={filters.query}
+            onChange={(e) => onChange({ query: e.target.value })}
+            placeholder="Search by name, description or #id"
+            className={`${inputClassName} pl-8`}
+          />
+        </label>
+        <div className="flex space-x-2">
+          <select
+            value={filters.sort}
+            onChange={(e) => onChange({ sort: e.target.value as TokenSortKey })}
+            className={inputClassName}
+            aria-label="Sort by"
+          >
+            <option value="id">Sort by ID</option>
+            <option value="price">Sort by price</option>
+            <option value="expiry">Sort by expiry</option>
+            <option value="supply">Sort by supply</option>
+          </select>
+          <select
+            value={filters.order}
+            onChange={(e) => onChange({ order: e.target.value as SortOrder })}
+            className={`${inputClassName} w-auto`}
+            aria-label="Sort order"
+          >
+            <option value="asc">Asc</option>
+            <option value="desc">Desc</option>
+          </select>
+        </div>
+        <div className="flex space-x-2">
+          <select
+            value={filters.expiry}
+            onChange={(e) => onChange({ expiry: e.target.value as ExpiryFilter })}
+            className={inputClassName}
+            aria-label="Expiry status"
+          >
+            <option value="all">Any status</option>
+            <option value="active">Active</option>
+            <option value="expired">Expired</option>
+          </select>
+          <select
+            value={filters.availability}
+            onChange={(e) => onChange({ availability: e.target.value as AvailabilityFilter })}
+            className={inputClassName}
+            aria-label="Availability"
+          >
+            <option value="all">Any supply</option>
+            <option value="available">Available</option>
+            <option value="sold-out">Sold out</option>
+          </select>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <span className="text-gray-500">Price ({priceSymbol})</span>
+        <input
+          type="text"
+          inputMode="decimal"
+          value={filters.minPrice}
+          onChange={(e) => onChange({ minPrice: e.target.value })}
+          disabled={priceDisabled}
+          placeholder="Min"
+          className={`${inputClassName} w-24`}
+          aria-label="Minimum price"
+        />
+        <span className="text-gray-400">–</span>
+        <input
+          type="text"
+          inputMode="decimal"
+          value={filters.maxPrice}
+          onChange={(e) => onChange({ maxPrice: e.target.value })}
+          disabled={priceDisabled}
+          placeholder="Max"
+          className={`${inputClassName} w-24`}
+          aria-label="Maximum price"
+        />
+      </div>
+
+      {Object.keys(traitValues).length > 0 && (
+        <div className="space-y-2">
+          {Object.entries(traitValues).map(([type, values]) => (
+            <div key={type} className="flex flex-wrap items-center gap-2 text-sm">
+              <span className="text-gray-500 mr-1">{type}</span>
+              {values.map(value => {
+                const active = filters.traits[type]?.includes(value) ?? false;
+                return (
+                  <button
+                    key={value}
+                    type="button"
+                    onClick={() => toggleTrait(type, value)}
+                    aria-pressed={active}
+                    className={`rounded-full border px-2.5 py-0.5 text-xs ${
+                      active
+                        ? 'border-indigo-600 bg-indigo-600 text-white'
+                        : 'border-gray-300 text-gray-700 hover:border-indigo-500'
+                    }`}
+                  >
+                    {value}
+                  </button>
+                );
+              })}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex items-center justify-between text-sm text-gray-500">
+        <span>
+          {resultCount === totalCount ? `${totalCount} tokens` : `${resultCount} of ${totalCount} tokens`}
+        </span>
+        {hasActiveTokenFilters(filters) && (
+          <button type="button" onClick={onReset} className="flex items-center text-indigo-600 hover:text-indigo-500">
+            <X className="h-4 w-4 mr-1" /> Clear filters
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+interface PaginationProps {
+  page: number;
+  pageCount: number;
+  onPageChange: (page: number) => void;
+}
+
+export function Pagination({ page, pageCount, onPageChange }: PaginationProps) {
+  if (pageCount <= 1) return null;
+
+  const buttonClassName =
+    'flex items-center rounded-md border border-gray-300 px-3 py-1.5 text-sm text-gray-700 hover:border-indigo-500 disabled:opacity-50 disabled:hover:border-gray-300';
+
+  return (
+    <nav className="mt-6 flex items-center justify-between" aria-label="Pagination">
+      <button
+        type="button"
+        onClick={() => onPageChange(page - 1)}
+        disabled={page <= 1}
+        className={buttonClassName}
+      >
+        <ChevronLeft className="h-4 w-4 mr-1" /> Previous
+      </button>
+      <span className="text-sm text-gray-500">Page {page} of {pageCount}</span>
+      <button
+        type="button"
+        onClick={() => onPageChange(page + 1)}
+        disabled={page >= pageCount}
+        className={buttonClassName}
+      >
+        Next <ChevronRight className="h-4 w-4 ml-1" />
+      </button>
+    </nav>
+  );
+}
@@ -0,0 +1,123 @@
+import { useEffect, useRef, useState } from 'react';
+import { Wallet, LogOut, ChevronDown, AlertTriangle } from 'lucide-react';
+import { useNetwork } from '../hooks/useNetwork';
+import { useWallet } from '../hooks/useWallet';
+import { shortenAddress } from '../utils/stringUtils';
+
+export function WalletButton() {
+  const { network } = useNetwork();
+  const { status, address, connector, connectors, error, chainMismatch, connect, disconnect, switchChain } = useWallet();
+  const [open, setOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close the menu when clicking elsewhere
+  useEffect(() => {
+    if (!open) return;
+    const handleClick = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [open]);
+
+  const buttonClass = 'flex items-center rounded-md px-3 py-1.5 text-sm font-medium';
+
+  return (
+    <div className="relative" ref={menuRef}>
+      {status === 'connected' && address ? (
+        <button
+          onClick={() => setOpen(!open)}
+          className={`${buttonClass} border border-gray-300 bg-white text-gray-900 hover:border-indigo-500`}
+          title={chainMismatch ? `Wallet is not on ${network.name}` : address}
+        >
+          {chainMismatch ? (
+            <AlertTriangle className="h-4 w-4 mr-2 text-amber-500" />
+          ) : connector?.icon ? (
+            <img src={connector.icon} alt="" className="h-4 w-4 mr-2" />
+          ) : (
+            <Wallet className="h-4 w-4 mr-2 text-indigo-600" />
+          )}
+          {shortenAddress(address)}
+          <ChevronDown className="h-4 w-4 ml-1 text-gray-400" />
+        </button>
+      ) : (
+        <button
+          onClick={() => setOpen(!open)}
+          disabled={status === 'connecting'}
+          className={`${buttonClass} bg-indigo-600 text-white hover:bg-indigo-500 disabled:opacity-60`}
+        >
+          <Wallet className="h-4 w-4 mr-2" />
+          {status === 'connecting' ? 'Connecting…' : 'Connect Wallet'}
+        </button>
+      )}
+
+      {open && (
+        <div className="absolute right-0 z-10 mt-2 w-64 rounded-md bg-white shadow-lg ring-1 ring-black/5">
+          {status === 'connected' && address ? (
+            <div className="p-3 space-y-3">
+              <div>
+                <div className="text-xs font-medium text-gray-500">Connected with {connector?.name}</div>
+                <div className="mt-1 text-xs text-gray-900 break-all font-mono">{address}</div>
+              </div>
+              {chainMismatch && (
+                <div className="rounded-md bg-amber-50 p-2 text-xs text-amber-800 space-y-2">
+                  <p>Your wallet is on a different network than {network.name}. Transactions are blocked until it switches.</p>
+                  {connector?.switchChain && (
+                    <button
+                      onClick={() => switchChain()}
+                      className="w-full rounded-md bg-amber-600 px-3 py-1.5 text-sm font-medium text-white hover:bg-amber-500"
+                    >
+                      Switch wallet to {network.name}
+                    </button>
+                  )}
+                </div>
+              )}
+              <button
+                onClick={() => {
+                  setOpen(false);
+                  disconnect();
+                }}
+                className="flex w-full items-center justify-center rounded-md border border-gray-300 px-3 py-1.5 text-sm text-gray-700 hover:bg-gray-50"
+              >
+                <LogOut className="h-4 w-4 mr-2" />
+                Disconnect
+              </button>
+            </div>
+          ) : (
+            <div className="py-1">
+              {connectors.length === 0 ? (
+                <p className="px-4 py-3 text-sm text-gray-500">
+                  No Starknet wallet found. Install Argent X or Braavos to connect.
+                </p>
+              ) : (
+                connectors.map(option => (
+                  <button
+                    key={option.id}
+                    onClick={() => {
+                      setOpen(false);
+                      connect(option);
+                    }}
+                    className="flex w-full items-center px-4 py-2 text-sm text-gray-700 hover:bg-gray-50"
+                  >
+                    {option.icon ? (
+                      <img src={option.icon} alt="" className="h-5 w-5 mr-3" />
+                    ) : (
+                      <Wallet className="h-5 w-5 mr-3 text-indigo-600" />
+                    )}
+                    {option.name}
+                  </button>
+                ))
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
+      {error && !open && (
+        <div className="absolute right-0 mt-2 w-64 rounded-md bg-red-50 p-2 text-xs text-red-700 shadow">
+          {error}
+        </div>
+      )}
+    </div>
+  );
+}
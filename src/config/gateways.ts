@@ -0,0 +1,24 @@
+const env = import.meta.env;
+
+function parseGatewayList(value: string | undefined, defaults: string[]): string[] {
+  const gateways = (value || '').split(',').map(item => item.trim()).filter(Boolean);
+  // Gateways are used as prefixes, so make sure they end with a slash
+  return (gateways.length > 0 ? gateways : defaults).map(gateway => gateway.endsWith('/') ? gateway : `${gateway}/`);
+}
+
+/**
+ * IPFS HTTP gateways, tried in order until one serves the content.
+ * Each entry is a prefix the CID and path are appended to.
+ */
+export const ipfsGateways = parseGatewayList(env.VITE_IPFS_GATEWAYS, [
+  'https://ipfs.io/ipfs/',
+  'https://dweb.link/ipfs/',
+  'https://w3s.link/ipfs/',
+]);
+
+/**
+ * Arweave HTTP gateways, tried in order
+ */
+export const arweaveGateways = parseGatewayList(env.VITE_ARWEAVE_GATEWAYS, [
+  'https://arweave.net/',
+]);
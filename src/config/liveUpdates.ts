@@ -0,0 +1,12 @@
+const env = import.meta.env;
+
+function parseInterval(value: string | undefined, fallback: number): number {
+  const parsed = Number(value);
+  return value && Number.isInteger(parsed) && parsed >= 1_000 ? parsed : fallback;
+}
+
+/**
+ * How often the latest block is polled when no WebSocket subscription is
+ * available, in milliseconds (at least one second)
+ */
+export const blockPollIntervalMs = parseInterval(env.VITE_BLOCK_POLL_INTERVAL_MS, 10_000);
@@ -0,0 +1,85 @@
+import { constants } from 'starknet';
+
+export type NetworkId = 'mainnet' | 'sepolia' | 'devnet';
+
+export interface KnownContracts {
+  points: string[];
+  collectibles: string[];
+}
+
+export interface NetworkConfig {
+  id: NetworkId;
+  name: string;
+  chainId: constants.StarknetChainId;
+  /** RPC endpoints in order of preference; requests fail over between them */
+  rpcUrls: string[];
+  /** WebSocket RPC endpoint for new block notifications; blocks are polled without it */
+  wsUrl?: string;
+  explorerUrl?: string;
+  /** Contracts aggregated on the account dashboard */
+  knownContracts: KnownContracts;
+}
+
+const env = import.meta.env;
+
+function parseAddressList(value: string | undefined): string[] {
+  return (value || '').split(',').map(item => item.trim()).filter(Boolean);
+}
+
+function parseUrlList(value: string | undefined, fallback: string): string[] {
+  const urls = (value || '').split(',').map(item => item.trim()).filter(Boolean);
+  return urls.length > 0 ? urls : [fallback];
+}
+
+export const networks: Record<NetworkId, NetworkConfig> = {
+  mainnet: {
+    id: 'mainnet',
+    name: 'Mainnet',
+    chainId: constants.StarknetChainId.SN_MAIN,
+    rpcUrls: parseUrlList(env.VITE_MAINNET_RPC_URL, 'https://starknet-mainnet.public.blastapi.io/rpc/v0_7'),
+    wsUrl: env.VITE_MAINNET_WS_URL || undefined,
+    explorerUrl: 'https://voyager.online',
+    knownContracts: {
+      points: parseAddressList(env.VITE_MAINNET_POINTS_CONTRACTS),
+      collectibles: parseAddressList(env.VITE_MAINNET_COLLECTIBLE_CONTRACTS),
+    },
+  },
+  sepolia: {
+    id: 'sepolia',
+    name: 'Sepolia',
+    chainId: constants.StarknetChainId.SN_SEPOLIA,
+    rpcUrls: parseUrlList(env.VITE_SEPOLIA_RPC_URL, 'https://starknet-sepolia.public.blastapi.io/rpc/v0_7'),
+    wsUrl: env.VITE_SEPOLIA_WS_URL || undefined,
+    explorerUrl: 'https://sepolia.voyager.online',
+    knownContracts: {
+      points: parseAddressList(env.VITE_SEPOLIA_POINTS_CONTRACTS),
+      collectibles: parseAddressList(env.VITE_SEPOLIA_COLLECTIBLE_CONTRACTS),
+    },
+  },
+  devnet: {
+    id: 'devnet',
+    name: 'Devnet',
+    // starknet-devnet reports the Sepolia chain id unless started with --chain-id
+    chainId: constants.StarknetChainId.SN_SEPOLIA,
+    rpcUrls: parseUrlList(env.VITE_DEVNET_RPC_URL, 'http://127.0.0.1:5050/rpc'),
+    wsUrl: env.VITE_DEVNET_WS_URL || undefined,
+    knownContracts: {
+      points: parseAddressList(env.VITE_DEVNET_POINTS_CONTRACTS),
+      collectibles: parseAddressList(env.VITE_DEVNET_COLLECTIBLE_CONTRACTS),
+    },
+  },
+};
+
+export const networkIds = Object.keys(networks) as NetworkId[];
+
+export function isNetworkId(value: unknown): value is NetworkId {
+  return typeof value === 'string' && (networkIds as string[]).includes(value);
+}
+
+export const DEFAULT_NETWORK_ID: NetworkId = isNetworkId(env.VITE_DEFAULT_NETWORK)
+  ? env.VITE_DEFAULT_NETWORK
+  : 'sepolia';
+
+export function getNetwork(id: NetworkId): NetworkConfig {
+  return networks[id];
+}
@@ -0,0 +1,25 @@
+const env = import.meta.env;
+
+export interface RetryPolicy {
+  /** Attempts after the first one; 0 disables retries */
+  retries: number;
+  /** Delay before the first retry, doubled for each one after it */
+  baseDelayMs: number;
+  /** Upper bound for a single delay */
+  maxDelayMs: number;
+}
+
+function parseCount(value: string | undefined, fallback: number): number {
+  const parsed = Number(value);
+  return value && Number.isInteger(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+/**
+ * Retries for transient RPC failures (unreachable endpoint, rate limits,
+ * internal node errors)
+ */
+export const rpcRetryPolicy: RetryPolicy = {
+  retries: parseCount(env.VITE_RPC_RETRIES, 3),
+  baseDelayMs: parseCount(env.VITE_RPC_RETRY_DELAY_MS, 500),
+  maxDelayMs: 8_000,
+};
@@ -0,0 +1,65 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { DEFAULT_NETWORK_ID, NetworkId, getNetwork, isNetworkId } from '../config/networks';
+import { NetworkContext } from '../hooks/useNetwork';
+
+const NETWORK_PARAM = 'network';
+const STORAGE_KEY = 'infinirewards.network';
+
+function getStoredNetwork(): NetworkId {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return isNetworkId(stored) ? stored : DEFAULT_NETWORK_ID;
+  } catch {
+    return DEFAULT_NETWORK_ID;
+  }
+}
+
+/**
+ * Keeps the selected network in sync with the `?network=` query parameter so
+ * shared links open on the right chain. Links that drop the parameter keep
+ * the current selection and get it re-applied to the URL.
+ */
+export function NetworkProvider({ children }: { children: React.ReactNode }) {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const urlNetwork = searchParams.get(NETWORK_PARAM);
+  const [selected, setSelected] = useState<NetworkId>(() =>
+    isNetworkId(urlNetwork) ? urlNetwork : getStoredNetwork()
+  );
+
+  useEffect(() => {
+    if (isNetworkId(urlNetwork)) {
+      if (urlNetwork !== selected) setSelected(urlNetwork);
+      return;
+    }
+    setSearchParams(prev => {
+      const next = new URLSearchParams(prev);
+      next.set(NETWORK_PARAM, selected);
+      return next;
+    }, { replace: true });
+  }, [urlNetwork, selected, setSearchParams]);
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(STORAGE_KEY, selected);
+    } catch {
+      // Storage may be unavailable (private mode); the URL still carries the network
+    }
+  }, [selected]);
+
+  const setNetwork = useCallback((id: NetworkId) => {
+    setSelected(id);
+    setSearchParams(prev => {
+      const next = new URLSearchParams(prev);
+      next.set(NETWORK_PARAM, id);
+      return next;
+    });
+  }, [setSearchParams]);
+
+  const value = useMemo(
+    () => ({ network: getNetwork(selected), setNetwork }),
+    [selected, setNetwork]
+  );
+
+  return <NetworkContext.Provider value={value}>{children}</NetworkContext.Provider>;
+}
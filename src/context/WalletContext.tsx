@@ -0,0 +1,170 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { AccountInterface } from 'starknet';
+import { useNetwork } from '../hooks/useNetwork';
+import { WalletContext, WalletContextValue, WalletStatus } from '../hooks/useWallet';
+import {
+  WalletConnector,
+  getDevnetConnector,
+  getInjectedConnectors,
+  getLastConnectedConnector,
+  isSameChain,
+} from '../services/walletService';
+
+// Null when the connector cannot tell, e.g. a signer bound to one network
+async function readChainId(connector: WalletConnector): Promise<string | null> {
+  if (!connector.getChainId) return null;
+  try {
+    return await connector.getChainId();
+  } catch (err) {
+    console.warn('Could not read the wallet chain:', err);
+    return null;
+  }
+}
+
+interface WalletProviderProps {
+  children: React.ReactNode;
+  /** Override wallet discovery, e.g. to inject a test signer */
+  connectors?: WalletConnector[];
+}
+
+export function WalletProvider({ children, connectors: connectorOverride }: WalletProviderProps) {
+  const { network } = useNetwork();
+  const [connectors, setConnectors] = useState<WalletConnector[]>(connectorOverride ?? []);
+  const [status, setStatus] = useState<WalletStatus>('disconnected');
+  const [account, setAccount] = useState<AccountInterface | null>(null);
+  const [connector, setConnector] = useState<WalletConnector | null>(null);
+  const [walletChainId, setWalletChainId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Ignore results of connection attempts that were superseded
+  const attemptRef = useRef(0);
+
+  const connectWith = useCallback(async (target: WalletConnector, silent: boolean) => {
+    const attempt = ++attemptRef.current;
+    setStatus('connecting');
+    setError(null);
+    try {
+      const connected = await target.connect(network.id, { silent });
+      const chainId = await readChainId(target);
+      if (attempt !== attemptRef.current) return;
+      setAccount(connected);
+      setConnector(target);
+      setWalletChainId(chainId);
+      setStatus('connected');
+    } catch (err) {
+      if (attempt !== attemptRef.current) return;
+      console.error('Error connecting wallet:', err);
+      setAccount(null);
+      setConnector(null);
+      setWalletChainId(null);
+      setStatus('disconnected');
+      if (!silent) setError(err instanceof Error ? err.message : 'Failed to connect wallet');
+    }
+  }, [network.id]);
+
+  const connect = useCallback((target: WalletConnector) => connectWith(target, false), [connectWith]);
+
+  const disconnect = useCallback(async () => {
+    attemptRef.current++;
+    const current = connector;
+    setAccount(null);
+    setConnector(null);
+    setWalletChainId(null);
+    setStatus('disconnected');
+    setError(null);
+    try {
+      await current?.disconnect();
+    } catch (err) {
+      console.error('Error disconnecting wallet:', err);
+    }
+  }, [connector]);
+
+  // Discover available wallets; the devnet signer only makes sense on devnet
+  useEffect(() => {
+    if (connectorOverride) return;
+    let cancelled = false;
+    getInjectedConnectors()
+      .catch(err => {
+        console.error('Error discovering wallets:', err);
+        return [];
+      })
+      .then(injected => {
+        if (cancelled) return;
+        const devnet = network.id === 'devnet' ? getDevnetConnector() : null;
+        setConnectors(devnet ? [devnet, ...injected] : injected);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [connectorOverride, network.id]);
+
+  // Restore the previous session, or rebind the current wallet to a newly
+  // selected network since accounts are tied to a provider. Rebinding is
+  // silent so switching networks does not prompt the wallet again; it reads
+  // the wallet's chain, so a wallet left on another chain shows as mismatched.
+  const connectorRef = useRef(connector);
+  connectorRef.current = connector;
+  useEffect(() => {
+    const current = connectorRef.current;
+    if (current) {
+      if (current.supportsNetwork?.(network.id) === false) {
+        attemptRef.current++;
+        setAccount(null);
+        setConnector(null);
+        setWalletChainId(null);
+        setStatus('disconnected');
+        current.disconnect().catch(err => console.error('Error disconnecting wallet:', err));
+      } else {
+        connectWith(current, true);
+      }
+      return;
+    }
+    if (connectorOverride) return;
+    getLastConnectedConnector()
+      .then(last => {
+        if (last) connectWith(last, true);
+      })
+      .catch(err => console.warn('Could not restore wallet session:', err));
+  }, [connectWith, connectorOverride, network.id]);
+
+  useEffect(() => {
+    if (!connector?.onAccountChange) return;
+    return connector.onAccountChange(() => connectWith(connector, true));
+  }, [connector, connectWith]);
+
+  useEffect(() => {
+    if (!connector?.onNetworkChange) return;
+    return connector.onNetworkChange(() => connectWith(connector, true));
+  }, [connector, connectWith]);
+
+  const switchChain = useCallback(async () => {
+    if (!connector?.switchChain) return;
+    setError(null);
+    try {
+      await connector.switchChain(network.id);
+    } catch (err) {
+      console.error('Error switching wallet network:', err);
+      setError(err instanceof Error ? err.message : 'The wallet did not switch networks');
+      return;
+    }
+    // Not every wallet reports the switch as a networkChanged event
+    await connectWith(connector, true);
+  }, [connector, connectWith, network.id]);
+
+  const chainMismatch = walletChainId !== null && !isSameChain(walletChainId, network.chainId);
+
+  const value = useMemo<WalletContextValue>(() => ({
+    status,
+    account,
+    address: account?.address ?? null,
+    connector,
+    connectors,
+    error,
+    chainMismatch,
+    connect,
+    disconnect,
+    switchChain,
+  }), [status, account, connector, connectors, error, chainMismatch, connect, disconnect, switchChain]);
+
+  return <WalletContext.Provider value={value}>{children}</WalletContext.Provider>;
+}
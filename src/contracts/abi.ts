@@ -11,8 +11,25 @@ export const pointsContractAbi = [
       { name: "total_supply", type: "u256" }
     ],
     stateMutability: "view"
+  },
+  {
+    name: "balance_of",
+    type: "function",
+    inputs: [{ name: "account", type: "ContractAddress" }],
+    outputs: [{ name: "balance", type: "u256" }],
+    stateMutability: "view"
+  },
+  {
+    name: "approve",
+    type: "function",
+    inputs: [
+      { name: "spender", type: "ContractAddress" },
+      { name: "amount", type: "u256" }
+    ],
+    outputs: [{ name: "success", type: "bool" }],
+    stateMutability: "external"
   }
-];
+] as const;
 
 export const collectibleContractAbi = [
   {
@@ -43,5 +60,36 @@ export const collectibleContractAbi = [
       { name: "supply", type: "u256" }
     ],
     stateMutability: "view"
+  },
+  {
+    name: "balance_of",
+    type: "function",
+    inputs: [
+      { name: "account", type: "ContractAddress" },
+      { name: "token_id", type: "u256" }
+    ],
+    outputs: [{ name: "balance", type: "u256" }],
+    stateMutability: "view"
+  },
+  {
+    name: "balance_of_batch",
+    type: "function",
+    inputs: [
+      { name: "accounts", type: "Array<ContractAddress>" },
+      { name: "token_ids", type: "Array<u256>" }
+    ],
+    outputs: [{ name: "balances", type: "Array<u256>" }],
+    stateMutability: "view"
+  },
+  {
+    name: "purchase",
+    type: "function",
+    inputs: [
+      { name: "user", type: "ContractAddress" },
+      { name: "token_id", type: "u256" },
+      { name: "amount", type: "u256" }
+    ],
+    outputs: [],
+    stateMutability: "external"
   }
-];
\ No newline at end of file
+] as const;
@@ -0,0 +1,74 @@
+import type { Abi as StarknetAbi } from 'starknet';
+import type { Abi, AbiParameter } from './decoder';
+
+// starknet.js turns `core::byte_array::ByteArray` into a string word by word,
+// which drops leading zero bytes. Declaring the same layout under another
+// name hands us the raw struct so binary metadata survives intact.
+const RAW_BYTE_ARRAY = 'infinirewards::RawByteArray';
+
+const CORE_TYPES: Record<string, string> = {
+  ByteArray: RAW_BYTE_ARRAY,
+  ContractAddress: 'core::starknet::contract_address::ContractAddress',
+  felt252: 'core::felt252',
+  bool: 'core::bool',
+  u8: 'core::integer::u8',
+  u16: 'core::integer::u16',
+  u32: 'core::integer::u32',
+  u64: 'core::integer::u64',
+  u128: 'core::integer::u128',
+  u256: 'core::integer::u256',
+};
+
+// Struct definitions starknet.js needs to (de)serialize u256 and ByteArray
+const CORE_STRUCTS = [
+  {
+    type: 'struct',
+    name: 'core::integer::u256',
+    members: [
+      { name: 'low', type: 'core::integer::u128' },
+      { name: 'high', type: 'core::integer::u128' },
+    ],
+  },
+  {
+    type: 'struct',
+    name: RAW_BYTE_ARRAY,
+    members: [
+      { name: 'data', type: 'core::array::Array::<core::felt252>' },
+      { name: 'pending_word', type: 'core::felt252' },
+      { name: 'pending_word_len', type: 'core::integer::u32' },
+    ],
+  },
+];
+
+/**
+ * Expand a short Cairo type name from `abi.ts` to its fully qualified form
+ */
+export function toCoreType(type: string): string {
+  const arrayMatch = /^Array<(.+)>$/.exec(type);
+  if (arrayMatch) {
+    return `core::array::Array::<${toCoreType(arrayMatch[1])}>`;
+  }
+  const coreType = CORE_TYPES[type];
+  if (!coreType) {
+    throw new Error(`Unsupported Cairo type in bundled ABI: ${type}`);
+  }
+  return coreType;
+}
+
+const toCoreParameter = ({ name, type }: AbiParameter) => ({ name, type: toCoreType(type) });
+
+/**
+ * Convert a bundled ABI into the Cairo 1 format starknet.js expects
+ */
+export function toStarknetAbi(abi: Abi): StarknetAbi {
+  return [
+    ...abi.map(fn => ({
+      type: fn.type,
+      name: fn.name,
+      inputs: fn.inputs.map(toCoreParameter),
+      outputs: fn.outputs.map(toCoreParameter),
+      state_mutability: fn.stateMutability,
+    })),
+    ...CORE_STRUCTS,
+  ];
+}
@@ -0,0 +1,209 @@
+import { addAddressPadding } from 'starknet';
+import { bytesToByteString, cairoByteArrayToBytes, isCairoByteArray } from '../utils/metadataDecoder';
+
+/**
+ * Shape of the function entries in `abi.ts`
+ */
+export interface AbiParameter {
+  readonly name: string;
+  readonly type: string;
+}
+
+export interface AbiFunction {
+  readonly name: string;
+  readonly type: 'function';
+  readonly inputs: readonly AbiParameter[];
+  readonly outputs: readonly AbiParameter[];
+  readonly stateMutability: string;
+}
+
+export type Abi = readonly AbiFunction[];
+
+/**
+ * TypeScript type produced for each Cairo type used in the bundled ABIs
+ */
+interface CairoTypeMap {
+  /** One character per byte; see `byteStringToText` and `decodeMetadata` */
+  ByteArray: string;
+  ContractAddress: string;
+  felt252: bigint;
+  bool: boolean;
+  u8: bigint;
+  u16: bigint;
+  u32: bigint;
+  u64: bigint;
+  u128: bigint;
+  u256: bigint;
+}
+
+export type CairoValue<T extends string> =
+  T extends `Array<${infer Inner}>`
+    ? CairoValue<Inner>[]
+    : T extends keyof CairoTypeMap
+      ? CairoTypeMap[T]
+      : unknown;
+
+export type AbiFunctionName<A extends Abi> = A[number]['name'];
+
+export type DecodedOutputs<A extends Abi, N extends AbiFunctionName<A>> = {
+  [P in Extract<A[number], { name: N }>['outputs'][number] as P['name']]: CairoValue<P['type']>;
+};
+
+const INTEGER_BITS: Record<string, number> = {
+  u8: 8,
+  u16: 16,
+  u32: 32,
+  u64: 64,
+  u128: 128,
+  u256: 256,
+  felt252: 252,
+};
+
+/**
+ * Raised when a contract returns data that does not match the output
+ * definition the client was built against
+ */
+export class AbiSchemaMismatchError extends Error {
+  constructor(
+    public readonly functionName: string,
+    public readonly path: string,
+    public readonly expected: string,
+    public readonly received: string,
+  ) {
+    super(
+      `Output of "${functionName}" does not match the expected schema: ` +
+      `${path} should be ${expected} but got ${received}`
+    );
+    this.name = 'AbiSchemaMismatchError';
+  }
+}
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return `array(${value.length})`;
+  if (typeof value === 'object') return `object {${Object.keys(value as object).join(', ')}}`;
+  return typeof value;
+}
+
+function toBigInt(value: unknown): bigint | null {
+  if (typeof value === 'bigint') return value;
+  if (typeof value === 'number' && Number.isInteger(value)) return BigInt(value);
+  if (typeof value === 'string' && /^(0x[0-9a-fA-F]+|\d+)$/.test(value)) return BigInt(value);
+  return null;
+}
+
+/**
+ * Decode a single value against a Cairo type. `path` is only used for
+ * error messages.
+ */
+function decodeValue(value: unknown, type: string, functionName: string, path: string): unknown {
+  const mismatch = () => new AbiSchemaMismatchError(functionName, path, type, describe(value));
+
+  const arrayMatch = /^Array<(.+)>$/.exec(type);
+  if (arrayMatch) {
+    if (!Array.isArray(value)) throw mismatch();
+    return value.map((item, index) => decodeValue(item, arrayMatch[1], functionName, `${path}[${index}]`));
+  }
+
+  if (type === 'ByteArray') {
+    if (typeof value === 'string') return value;
+    if (isCairoByteArray(value)) {
+      try {
+        return bytesToByteString(cairoByteArrayToBytes(value));
+      } catch {
+        throw mismatch();
+      }
+    }
+    throw mismatch();
+  }
+
+  if (type === 'bool') {
+    if (typeof value === 'boolean') return value;
+    const flag = toBigInt(value);
+    if (flag === 0n || flag === 1n) return flag === 1n;
+    throw mismatch();
+  }
+
+  if (type === 'ContractAddress') {
+    const address = toBigInt(value);
+    if (address === null || address < 0n || address >= 2n ** 251n) throw mismatch();
+    return addAddressPadding(address);
+  }
+
+  const bits = INTEGER_BITS[type];
+  if (bits !== undefined) {
+    let integer = toBigInt(value);
+    // starknet.js may hand back u256 as its raw { low, high } struct
+    if (integer === null && type === 'u256' && typeof value === 'object' && value !== null && 'low' in value && 'high' in value) {
+      const low = toBigInt((value as { low: unknown }).low);
+      const high = toBigInt((value as { high: unknown }).high);
+      if (low !== null && high !== null) integer = (high << 128n) + low;
+    }
+    if (integer === null || integer < 0n || integer >= 2n ** BigInt(bits)) throw mismatch();
+    return integer;
+  }
+
+  throw new AbiSchemaMismatchError(functionName, path, type, 'a type the decoder does not support');
+}
+
+/**
+ * Split a `contract.call` result into one raw value per declared output.
+ * starknet.js returns named objects, tuple objects keyed "0".."n" or plain
+ * arrays depending on the ABI the contract was built from.
+ */
+function extractOutputValues(fn: AbiFunction, result: unknown): unknown[] {
+  const { outputs } = fn;
+
+  if (Array.isArray(result)) {
+    if (outputs.length === 1 && outputs[0].type.startsWith('Array<')) return [result];
+    return result;
+  }
+
+  if (typeof result === 'object' && result !== null) {
+    const record = result as Record<string, unknown>;
+    if (outputs.every(output => output.name in record)) {
+      return outputs.map(output => record[output.name]);
+    }
+    if (outputs.length > 1 && outputs.every((_, index) => String(index) in record)) {
+      return Object.keys(record)
+        .filter(key => /^\d+$/.test(key))
+        .sort((a, b) => Number(a) - Number(b))
+        .map(key => record[key]);
+    }
+  }
+
+  if (outputs.length === 1) return [result];
+
+  throw new AbiSchemaMismatchError(fn.name, 'result', `${outputs.length} outputs`, describe(result));
+}
+
+/**
+ * Decode the result of `contract.call` into a named, typed struct using the
+ * output definitions of `functionName` in `abi`
+ */
+export function decodeFunctionOutputs<A extends Abi, N extends AbiFunctionName<A>>(
+  abi: A,
+  functionName: N,
+  result: unknown,
+): DecodedOutputs<A, N> {
+  const fn = abi.find(entry => entry.name === functionName);
+  if (!fn) {
+    throw new Error(`Function "${functionName}" is not defined in the ABI`);
+  }
+
+  const values = extractOutputValues(fn, result);
+  if (values.length !== fn.outputs.length) {
+    throw new AbiSchemaMismatchError(
+      fn.name,
+      'result',
+      `${fn.outputs.length} outputs (${fn.outputs.map(output => output.name).join(', ')})`,
+      `${values.length} values`
+    );
+  }
+
+  const decoded: Record<string, unknown> = {};
+  fn.outputs.forEach((output, index) => {
+    decoded[output.name] = decodeValue(values[index], output.type, fn.name, output.name);
+  });
+  return decoded as DecodedOutputs<A, N>;
+}
@@ -0,0 +1,137 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import type { ContractKind } from '../services/contractService';
+import { ACTIVITY_TYPES, ActivityEvent, ActivityPage, ActivityType, getActivityPage } from '../services/eventService';
+import { parseAddress } from '../utils/address';
+import { useNetwork } from './useNetwork';
+import { useQuery } from './useQuery';
+
+const LATEST_PAGE_OPTIONS = { staleTime: 15_000 };
+
+// Loaded pages cut to the blocks below `block`, where a refetched latest page
+// now starts, so no block is listed twice and none is skipped
+function pagesBelow(pages: ActivityPage[], block: number): ActivityPage[] {
+  return pages
+    .filter(page => page.fromBlock < block)
+    .map(page => ({ ...page, events: page.events.filter(event => event.blockNumber < block) }));
+}
+
+/**
+ * Activity feed of a contract, newest first. The latest page is a cached
+ * query; older pages are appended by `loadMore`. When the latest page is
+ * refetched, the page it replaces joins the older ones, so scrolled history
+ * stays loaded; everything is dropped when the contract or filters change.
+ */
+export function useActivity(
+  address: string | undefined,
+  kind: ContractKind,
+  types: ActivityType[],
+  account: string | undefined,
+) {
+  const { network } = useNetwork();
+  const feedKey = `${network.id}:${address}:${types.join(',')}:${account ?? ''}`;
+  const latest = useQuery<ActivityPage>(
+    address ? [network.id, address, 'getEvents', types.join(','), account ?? ''] : null,
+    () => getActivityPage(address!, kind, network.id, { types, account }),
+    LATEST_PAGE_OPTIONS
+  );
+
+  const [olderPages, setOlderPages] = useState<ActivityPage[]>([]);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [loadMoreError, setLoadMoreError] = useState<unknown>();
+  // Ignore older pages that arrive after the feed was reset
+  const generation = useRef(0);
+  const shown = useRef<{ feedKey: string; page?: ActivityPage }>({ feedKey });
+
+  useEffect(() => {
+    const previous = shown.current;
+    if (previous.feedKey !== feedKey) {
+      shown.current = { feedKey, page: latest.data };
+      generation.current++;
+      setOlderPages([]);
+      setLoadingMore(false);
+      setLoadMoreError(undefined);
+      return;
+    }
+    // Keep the last page shown while a refetch has no data, e.g. after an error
+    if (!latest.data) return;
+    shown.current = { feedKey, page: latest.data };
+    const replaced = previous.page;
+    if (replaced && replaced !== latest.data) {
+      const newest = latest.data.fromBlock;
+      setOlderPages(prev => pagesBelow([replaced, ...prev], newest));
+    }
+  }, [feedKey, latest.data]);
+
+  const lastPage = olderPages.length > 0 ? olderPages[olderPages.length - 1] : latest.data;
+  const nextBlock = lastPage?.nextBlock ?? null;
+
+  const loadMore = useCallback(async () => {
+    if (!address || nextBlock === null) return;
+    const current = generation.current;
+    setLoadingMore(true);
+    setLoadMoreError(undefined);
+    try {
+      const page = await getActivityPage(address, kind, network.id, { types, account }, nextBlock);
+      if (current === generation.current) setOlderPages(prev => [...prev, page]);
+    } catch (error) {
+      if (current === generation.current) setLoadMoreError(error);
+    } finally {
+      if (current === generation.current) setLoadingMore(false);
+    }
+  }, [address, kind, network.id, types, account, nextBlock]);
+
+  const events = useMemo<ActivityEvent[]>(
+    () => [latest.data, ...olderPages].flatMap(page => page?.events ?? []),
+    [latest.data, olderPages]
+  );
+
+  return {
+    events,
+    error: latest.error,
+    isLoading: latest.isLoading,
+    isFetching: latest.isFetching,
+    refetch: latest.refetch,
+    /** Oldest block covered by the loaded pages */
+    fromBlock: lastPage?.fromBlock,
+    hasMore: nextBlock !== null,
+    loadMore,
+    loadingMore,
+    loadMoreError,
+  };
+}
+
+const PARAMS = {
+  type: 'activity',
+  account: 'party',
+} as const;
+
+/**
+ * Activity filters stored in the URL next to the other page parameters.
+ * Unknown types and malformed addresses are ignored.
+ */
+export function useActivityFilters(kind: ContractKind) {
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const typeParam = searchParams.get(PARAMS.type);
+  const accountParam = searchParams.get(PARAMS.account);
+  const types = useMemo(
+    () => ACTIVITY_TYPES[kind].filter(type => type === typeParam),
+    [kind, typeParam]
+  );
+  const account = accountParam ? parseAddress(accountParam).address : undefined;
+
+  const update = useCallback((name: string, value: string | undefined) => {
+    setSearchParams(prev => {
+      const next = new URLSearchParams(prev);
+      if (value) next.set(name, value);
+      else next.delete(name);
+      return next;
+    }, { replace: true });
+  }, [setSearchParams]);
+
+  const setType = useCallback((type: ActivityType | undefined) => update(PARAMS.type, type), [update]);
+  const setAccount = useCallback((value: string | undefined) => update(PARAMS.account, value), [update]);
+
+  return { types, account, setType, setAccount };
+}
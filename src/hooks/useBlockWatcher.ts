@@ -0,0 +1,16 @@
+import { useCallback, useSyncExternalStore } from 'react';
+import { NetworkId } from '../config/networks';
+import { BlockWatcherState, getBlockWatcher } from '../services/blockWatcher';
+
+/**
+ * Live block watcher state for a network. New blocks are watched, and
+ * affected contract reads refreshed, while at least one component uses this hook.
+ */
+export function useBlockWatcher(networkId: NetworkId): BlockWatcherState & { setPaused: (paused: boolean) => void } {
+  const watcher = getBlockWatcher(networkId);
+  const subscribe = useCallback((listener: () => void) => watcher.subscribe(listener), [watcher]);
+  const getSnapshot = useCallback(() => watcher.getState(), [watcher]);
+  const state = useSyncExternalStore(subscribe, getSnapshot);
+  const setPaused = useCallback((paused: boolean) => watcher.setPaused(paused), [watcher]);
+  return { ...state, setPaused };
+}
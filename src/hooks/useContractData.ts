@@ -0,0 +1,135 @@
+import { NetworkId } from '../config/networks';
+import {
+  CollectibleDetails,
+  ContractKind,
+  PointsDetails,
+  TokenData,
+  getCollectibleBalances,
+  getCollectibleDetails,
+  getPointsBalance,
+  getPointsDetails,
+  getTokenData,
+  explainContractError,
+} from '../services/contractService';
+import { TokenNotFoundError } from '../services/errors';
+import { queryCache } from '../services/queryCache';
+import { useNetwork } from './useNetwork';
+import { useQuery } from './useQuery';
+
+const DETAILS_OPTIONS = { staleTime: 60_000 };
+const BALANCE_OPTIONS = { staleTime: 15_000 };
+
+/**
+ * Run a read for a contract page, replacing failures with a specific error
+ * when the contract is missing or is not the expected kind
+ */
+async function readContract<T>(
+  read: () => Promise<T>,
+  address: string,
+  kind: ContractKind,
+  networkId: NetworkId,
+): Promise<T> {
+  try {
+    return await read();
+  } catch (error) {
+    throw await explainContractError(error, address, kind, networkId);
+  }
+}
+
+// Both contract kinds have a get_details method with different results, so
+// the kind is part of the key; otherwise opening an address as the wrong kind
+// would return the other kind's cached struct instead of failing
+const POINTS_DETAILS = 'points:get_details';
+const COLLECTIBLE_DETAILS = 'collectible:get_details';
+
+export function usePointsDetails(address: string | undefined) {
+  const { network } = useNetwork();
+  return useQuery<PointsDetails>(
+    address ? [network.id, address, POINTS_DETAILS] : null,
+    () => readContract(
+      () => getPointsDetails(address!, network.id),
+      address!,
+      'points',
+      network.id
+    ),
+    DETAILS_OPTIONS
+  );
+}
+
+export function useCollectibleDetails(address: string | undefined) {
+  const { network } = useNetwork();
+  return useQuery<CollectibleDetails>(
+    address ? [network.id, address, COLLECTIBLE_DETAILS] : null,
+    async () => {
+      const details = await readContract(
+        () => getCollectibleDetails(address!, network.id),
+        address!,
+        'collectible',
+        network.id
+      );
+
+      // get_details already carries everything get_token_data returns, so
+      // seed the per-token entries to save a round trip on the token page
+      details.tokenIds.forEach((tokenId, index) => {
+        queryCache.setQueryData<TokenData>([network.id, address!, 'get_token_data', tokenId], {
+          pointsContract: details.pointsContract,
+          price: details.prices[index],
+          expiry: details.expiryTimes[index],
+          metadata: details.tokenMetadata[index],
+          supply: details.supplies[index],
+        });
+      });
+      return details;
+    },
+    DETAILS_OPTIONS
+  );
+}
+
+export function useTokenData(address: string | undefined, tokenId: string | undefined) {
+  const { network } = useNetwork();
+  return useQuery<TokenData>(
+    address && tokenId ? [network.id, address, 'get_token_data', tokenId] : null,
+    async () => {
+      // Skip the call when the collection is already loaded and lacks the token
+      const collection = queryCache.getState<CollectibleDetails>([network.id, address!, COLLECTIBLE_DETAILS]).data;
+      if (collection && !collection.tokenIds.includes(tokenId!)) {
+        throw new TokenNotFoundError(address!, tokenId!);
+      }
+
+      const data = await readContract(
+        () => getTokenData(tokenId!, address!, network.id),
+        address!,
+        'collectible',
+        network.id
+      );
+      // Unknown token ids read back as empty storage, with no points contract
+      if (BigInt(data.pointsContract) === 0n) {
+        throw new TokenNotFoundError(address!, tokenId!);
+      }
+      return data;
+    },
+    DETAILS_OPTIONS
+  );
+}
+
+export function usePointsBalance(pointsContract: string | undefined, account: string | null | undefined) {
+  const { network } = useNetwork();
+  return useQuery<bigint>(
+    pointsContract && account ? [network.id, pointsContract, 'balance_of', account] : null,
+    () => getPointsBalance(pointsContract!, account!, network.id),
+    BALANCE_OPTIONS
+  );
+}
+
+export function useCollectibleBalances(
+  address: string | undefined,
+  account: string | null | undefined,
+  tokenIds: string[] | undefined,
+) {
+  const { network } = useNetwork();
+  return useQuery<bigint[]>(
+    address && account && tokenIds ? [network.id, address, 'balance_of_batch', account, ...tokenIds] : null,
+    () => getCollectibleBalances(address!, account!, tokenIds!, network.id),
+    BALANCE_OPTIONS
+  );
+}
@@ -0,0 +1,43 @@
+import { useEffect, useRef, useState } from 'react';
+import { EventIndexDefinition, EventIndexProgress, IndexedState, syncEventIndex } from '../services/eventIndex';
+import { useNetwork } from './useNetwork';
+import { useQuery } from './useQuery';
+
+const INDEX_OPTIONS = { staleTime: 60_000 };
+
+/**
+ * Event index of a contract, synced to the latest block. While a sync runs,
+ * the partially built state and its progress are returned.
+ */
+export function useEventIndex<T extends IndexedState, S>(
+  definition: EventIndexDefinition<T, S>,
+  address: string | undefined,
+) {
+  const { network } = useNetwork();
+  const [progress, setProgress] = useState<EventIndexProgress<T> | null>(null);
+  // A sync for a previous contract may still report progress after switching
+  const currentKey = useRef('');
+  currentKey.current = `${network.id}:${definition.name}:${address}`;
+
+  useEffect(() => {
+    setProgress(null);
+  }, [network.id, definition.name, address]);
+
+  const query = useQuery<T>(
+    address ? [network.id, address, definition.name] : null,
+    () => {
+      const key = currentKey.current;
+      return syncEventIndex(definition, address!, network.id, update => {
+        if (currentKey.current === key) setProgress(update);
+      });
+    },
+    INDEX_OPTIONS
+  );
+
+  const syncing = query.isFetching && progress !== null;
+  return {
+    ...query,
+    state: syncing ? progress.state : query.data ?? progress?.state,
+    progress: syncing ? progress : null,
+  };
+}
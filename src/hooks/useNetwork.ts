@@ -0,0 +1,18 @@
+import { createContext, useContext } from 'react';
+import { NetworkConfig, NetworkId } from '../config/networks';
+
+interface NetworkContextValue {
+  network: NetworkConfig;
+  setNetwork: (id: NetworkId) => void;
+}
+
+/** Provided by NetworkProvider */
+export const NetworkContext = createContext<NetworkContextValue | null>(null);
+
+export function useNetwork(): NetworkContextValue {
+  const context = useContext(NetworkContext);
+  if (!context) {
+    throw new Error('useNetwork must be used within a NetworkProvider');
+  }
+  return context;
+}
@@ -0,0 +1,17 @@
+import { useEffect, useState } from 'react';
+
+/**
+ * Current time in milliseconds, refreshed every `intervalMs`. Pass null to
+ * stop ticking, e.g. once a countdown has nothing left to count.
+ */
+export function useNow(intervalMs: number | null = 1000): number {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (intervalMs === null) return;
+    const id = setInterval(() => setNow(Date.now()), intervalMs);
+    return () => clearInterval(id);
+  }, [intervalMs]);
+
+  return now;
+}
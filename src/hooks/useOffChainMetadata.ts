@@ -0,0 +1,79 @@
+import { useEffect, useReducer, useRef } from 'react';
+import { getOffChainUri, resolveOffChainMetadata } from '../services/metadataService';
+import { QueryKey, queryCache } from '../services/queryCache';
+import { DecodedMetadata } from '../utils/metadataDecoder';
+import { useNetwork } from './useNetwork';
+import { useQuery } from './useQuery';
+
+// Documents are cached by the metadata service, so refetches are cheap
+const OFF_CHAIN_OPTIONS = { staleTime: 10 * 60_000 };
+
+function offChainKey(
+  networkId: QueryKey[0],
+  contract: string,
+  tokenId: string | undefined,
+  metadata: DecodedMetadata | undefined,
+): QueryKey | null {
+  const uri = metadata && getOffChainUri(metadata);
+  return uri ? [networkId, contract, 'off_chain_metadata', tokenId ?? '', uri] : null;
+}
+
+/**
+ * On-chain metadata merged with the off-chain document it references. The
+ * on-chain metadata is returned while the document loads, and when there is
+ * nothing to load.
+ */
+export function useOffChainMetadata(
+  contract: string | undefined,
+  metadata: DecodedMetadata | undefined,
+  tokenId?: string,
+): DecodedMetadata | undefined {
+  const { network } = useNetwork();
+  const { data } = useQuery<DecodedMetadata>(
+    contract ? offChainKey(network.id, contract, tokenId, metadata) : null,
+    () => resolveOffChainMetadata(metadata!),
+    OFF_CHAIN_OPTIONS
+  );
+  return data ?? metadata;
+}
+
+/**
+ * `useOffChainMetadata` for every token of a collection. Each token is its
+ * own query, so tokens show their documents as they arrive and a slow
+ * gateway only holds back the tokens it serves.
+ */
+export function useOffChainTokenMetadata(
+  contract: string | undefined,
+  tokenIds: string[] | undefined,
+  metadata: DecodedMetadata[] | undefined,
+): DecodedMetadata[] | undefined {
+  const { network } = useNetwork();
+  const [, rerender] = useReducer((count: number) => count + 1, 0);
+
+  const keys = contract && tokenIds && metadata
+    ? tokenIds.map((tokenId, index) => offChainKey(network.id, contract, tokenId, metadata[index]))
+    : [];
+  const keysHash = JSON.stringify(keys);
+  // The keys cover the metadata, so only its latest value is needed
+  const metadataRef = useRef(metadata);
+  metadataRef.current = metadata;
+
+  useEffect(() => {
+    const entries = (JSON.parse(keysHash) as (QueryKey | null)[])
+      .map((key, index) => ({ key, index }))
+      .filter((entry): entry is { key: QueryKey; index: number } => entry.key !== null);
+    const unsubscribes = entries.map(({ key }) => queryCache.subscribe(key, rerender));
+    entries.forEach(({ key, index }) => {
+      queryCache.fetch(key, () => resolveOffChainMetadata(metadataRef.current![index]), OFF_CHAIN_OPTIONS).catch(() => {
+        // Resolution failures are reported as warnings in the result
+      });
+    });
+    return () => unsubscribes.forEach(unsubscribe => unsubscribe());
+  }, [keysHash]);
+
+  if (!metadata) return undefined;
+  return metadata.map((item, index) => {
+    const key = keys[index];
+    return (key && queryCache.getState<DecodedMetadata>(key).data) || item;
+  });
+}
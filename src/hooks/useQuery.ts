@@ -0,0 +1,75 @@
+import { useCallback, useEffect, useMemo, useRef, useSyncExternalStore } from 'react';
+import { QueryKey, QueryOptions, QueryState, hashKey, queryCache } from '../services/queryCache';
+
+export interface QueryResult<T> {
+  data: T | undefined;
+  error: unknown;
+  /** True while there is no data yet and a request is in flight */
+  isLoading: boolean;
+  /** True whenever a request is in flight, including background revalidation */
+  isFetching: boolean;
+  updatedAt: number;
+  refetch: () => Promise<T | undefined>;
+}
+
+const IDLE_STATE: QueryState<never> = {
+  data: undefined,
+  error: undefined,
+  updatedAt: 0,
+  isFetching: false,
+  isInvalidated: false,
+};
+
+/**
+ * Subscribe to a cached contract read. Cached data is returned immediately
+ * and revalidated in the background once stale. Pass a null key to disable
+ * the query.
+ */
+export function useQuery<T>(
+  key: QueryKey | null,
+  fetcher: () => Promise<T>,
+  options: QueryOptions = {},
+): QueryResult<T> {
+  // Callers build keys inline, so only react to changes in the key's content
+  const hash = key ? hashKey(key) : null;
+  const stableKey = useMemo(() => (hash ? JSON.parse(hash) as QueryKey : null), [hash]);
+
+  // Keep the latest fetcher and options without re-triggering the effect
+  const fetcherRef = useRef(fetcher);
+  const optionsRef = useRef(options);
+  fetcherRef.current = fetcher;
+  optionsRef.current = options;
+
+  const subscribe = useCallback(
+    (listener: () => void) => (stableKey ? queryCache.subscribe(stableKey, listener) : () => {}),
+    [stableKey]
+  );
+  const getSnapshot = useCallback(
+    () => (stableKey ? queryCache.getState<T>(stableKey) : IDLE_STATE),
+    [stableKey]
+  );
+  const state = useSyncExternalStore(subscribe, getSnapshot);
+
+  useEffect(() => {
+    if (!stableKey) return;
+    queryCache.fetch(stableKey, () => fetcherRef.current(), optionsRef.current).catch(() => {
+      // Error is exposed through the query state
+    });
+  }, [stableKey]);
+
+  const refetch = useCallback(async () => {
+    if (!stableKey) return undefined;
+    return queryCache
+      .refetch(stableKey, () => fetcherRef.current(), optionsRef.current)
+      .catch(() => undefined);
+  }, [stableKey]);
+
+  return {
+    data: state.data,
+    error: state.error,
+    isLoading: !!stableKey && state.data === undefined && !state.error,
+    isFetching: state.isFetching,
+    updatedAt: state.updatedAt,
+    refetch,
+  };
+}
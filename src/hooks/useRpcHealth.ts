@@ -0,0 +1,14 @@
+import { useCallback, useSyncExternalStore } from 'react';
+import { NetworkId } from '../config/networks';
+import { EndpointHealth, getRpcPool } from '../services/rpcPool';
+
+/**
+ * Live health of a network's RPC endpoints. Health checks run while at least
+ * one component uses this hook.
+ */
+export function useRpcHealth(networkId: NetworkId): EndpointHealth[] {
+  const pool = getRpcPool(networkId);
+  const subscribe = useCallback((listener: () => void) => pool.subscribe(listener), [pool]);
+  const getSnapshot = useCallback(() => pool.getHealth(), [pool]);
+  return useSyncExternalStore(subscribe, getSnapshot);
+}
@@ -0,0 +1,27 @@
+import { useCallback } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import type { TabOption } from '../components/TabBar';
+
+const TAB_PARAM = 'tab';
+
+/**
+ * Selected tab stored in the `tab` URL parameter. The first tab is the
+ * default and leaves the parameter out; unknown values select it too.
+ */
+export function useTabParam<T extends string>(tabs: readonly TabOption<T>[]): [T, (tab: T) => void] {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const param = searchParams.get(TAB_PARAM);
+  const selected = tabs.find(tab => tab.id === param)?.id ?? tabs[0].id;
+  const defaultTab = tabs[0].id;
+
+  const select = useCallback((tab: T) => {
+    setSearchParams(prev => {
+      const next = new URLSearchParams(prev);
+      if (tab === defaultTab) next.delete(TAB_PARAM);
+      else next.set(TAB_PARAM, tab);
+      return next;
+    }, { replace: true });
+  }, [setSearchParams, defaultTab]);
+
+  return [selected, select];
+}
@@ -0,0 +1,26 @@
+import { useCallback, useMemo } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { DEFAULT_TOKEN_FILTERS, TokenFilters, parseTokenFilters, writeTokenFilters } from '../utils/tokenFilters';
+
+/**
+ * Token grid filters stored in the URL so filtered views can be shared.
+ * Changing any filter other than the page goes back to the first page.
+ */
+export function useTokenFilters() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const filters = useMemo(() => parseTokenFilters(searchParams), [searchParams]);
+
+  const updateFilters = useCallback((changes: Partial<TokenFilters>) => {
+    setSearchParams(
+      prev => writeTokenFilters(prev, { ...parseTokenFilters(prev), page: 1, ...changes }),
+      // Page changes get history entries; typing in the search box should not
+      { replace: changes.page === undefined }
+    );
+  }, [setSearchParams]);
+
+  const resetFilters = useCallback(() => {
+    setSearchParams(prev => writeTokenFilters(prev, DEFAULT_TOKEN_FILTERS), { replace: true });
+  }, [setSearchParams]);
+
+  return { filters, updateFilters, resetFilters };
+}
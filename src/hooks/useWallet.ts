@@ -0,0 +1,31 @@
+import { createContext, useContext } from 'react';
+import { AccountInterface } from 'starknet';
+import type { WalletConnector } from '../services/walletService';
+
+export type WalletStatus = 'disconnected' | 'connecting' | 'connected';
+
+export interface WalletContextValue {
+  status: WalletStatus;
+  account: AccountInterface | null;
+  address: string | null;
+  connector: WalletConnector | null;
+  connectors: WalletConnector[];
+  error: string | null;
+  /** True when the wallet signs for a different chain than the selected network */
+  chainMismatch: boolean;
+  connect: (connector: WalletConnector) => Promise<void>;
+  disconnect: () => Promise<void>;
+  /** Ask the wallet to switch to the selected network */
+  switchChain: () => Promise<void>;
+}
+
+/** Provided by WalletProvider */
+export const WalletContext = createContext<WalletContextValue | null>(null);
+
+export function useWallet(): WalletContextValue {
+  const context = useContext(WalletContext);
+  if (!context) {
+    throw new Error('useWallet must be used within a WalletProvider');
+  }
+  return context;
+}
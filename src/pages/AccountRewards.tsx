@@ -0,0 +1,300 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Link, Navigate, useParams } from 'react-router-dom';
+import { Coins, History, Package, User, Wallet } from 'lucide-react';
+import {
+  useCollectibleBalances,
+  useCollectibleDetails,
+  usePointsBalance,
+  usePointsDetails,
+} from '../hooks/useContractData';
+import { useNetwork } from '../hooks/useNetwork';
+import { useOffChainTokenMetadata } from '../hooks/useOffChainMetadata';
+import { useWallet } from '../hooks/useWallet';
+import { normalizeAddress } from '../utils/address';
+import { toAmount } from '../utils/amount';
+import { AmountDisplay } from '../components/AmountDisplay';
+import { ContractErrorState } from '../components/ContractErrorState';
+import { validateTokenMetadata } from '../utils/metadataSchema';
+import { MediaImage } from '../components/MediaImage';
+import { ExpiryBadge } from '../components/ExpiryBadge';
+import { isExpired } from '../utils/expiry';
+
+function uniqueAddresses(addresses: string[]): string[] {
+  const seen = new Set<string>();
+  return addresses.filter(address => {
+    let key = address.toLowerCase();
+    try {
+      key = normalizeAddress(address);
+    } catch {
+      // Keep malformed entries so the row can report the failure
+    }
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * Redirects `/account` to the connected wallet's dashboard
+ */
+export function MyAccount() {
+  const { address, status } = useWallet();
+
+  if (address) {
+    return <Navigate to={`/account/${address}`} replace />;
+  }
+
+  return (
+    <div className="bg-white shadow rounded-lg p-8 text-center">
+      <Wallet className="mx-auto h-12 w-12 text-indigo-600" />
+      <h1 className="mt-4 text-xl font-bold text-gray-900">My Rewards</h1>
+      <p className="mt-2 text-gray-500">
+        {status === 'connecting'
+          ? 'Connecting to your wallet…'
+          : 'Connect a wallet from the navigation bar to see your points and collectibles.'}
+      </p>
+    </div>
+  );
+}
+
+export function AccountRewards() {
+  const { address } = useParams<{ address: string }>();
+  const { network } = useNetwork();
+  const { points, collectibles } = network.knownContracts;
+
+  // Points contracts linked from collections are shown even if not configured
+  const [linkedPoints, setLinkedPoints] = useState<string[]>([]);
+  const registerPointsContract = useCallback((contract: string) => {
+    setLinkedPoints(prev => (prev.includes(contract) ? prev : [...prev, contract]));
+  }, []);
+
+  useEffect(() => {
+    setLinkedPoints([]);
+  }, [network.id]);
+
+  if (!address) return null;
+
+  const pointsContracts = uniqueAddresses([...points, ...linkedPoints]);
+  const collectibleContracts = uniqueAddresses(collectibles);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center space-x-4">
+        <User className="h-12 w-12 text-indigo-600" />
+        <div className="min-w-0">
+          <h1 className="text-3xl font-bold text-gray-900">My Rewards</h1>
+          <p className="text-sm text-gray-500 break-all">{address}</p>
+        </div>
+      </div>
+
+      <div className="bg-white shadow rounded-lg overflow-hidden">
+        <div className="px-4 py-5 sm:p-6">
+          <h2 className="text-lg font-medium text-gray-900 mb-4">Points</h2>
+          {pointsContracts.length === 0 ? (
+            <p className="text-sm text-gray-500 italic">No points contracts configured for {network.name}.</p>
+          ) : (
+            <ul className="divide-y divide-gray-200">
+              {pointsContracts.map(contract => (
+                <PointsBalanceRow key={contract} contract={contract} account={address} />
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+
+      <div className="bg-white shadow rounded-lg overflow-hidden">
+        <div className="px-4 py-5 sm:p-6">
+          <h2 className="text-lg font-medium text-gray-900 mb-4">Collectibles</h2>
+          {collectibleContracts.length === 0 ? (
+            <p className="text-sm text-gray-500 italic">No collectible contracts configured for {network.name}.</p>
+          ) : (
+            <div className="space-y-6">
+              {collectibleContracts.map(contract => (
+                <CollectibleHoldings
+                  key={contract}
+                  contract={contract}
+                  account={address}
+                  onPointsContract={registerPointsContract}
+                />
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function PointsBalanceRow({ contract, account }: { contract: string; account: string }) {
+  const { data: details, error, isFetching, refetch } = usePointsDetails(contract);
+  const {
+    data: balance,
+    error: balanceError,
+    isLoading,
+    isFetching: balanceFetching,
+    refetch: refetchBalance,
+  } = usePointsBalance(contract, account);
+
+  return (
+    <li className="flex items-center justify-between py-3">
+      <Link to={`/points/${contract}`} className="flex items-center min-w-0 text-indigo-600 hover:text-indigo-500">
+        <Coins className="h-5 w-5 mr-2 flex-shrink-0" />
+        <span className="truncate">
+          {details ? `${details.name} (${details.symbol})` : error ? contract : 'Loading…'}
+        </span>
+      </Link>
+      <span className="ml-4 text-sm font-medium text-gray-900">
+        {error && !details ? (
+          <button
+            type="button"
+            onClick={refetch}
+            disabled={isFetching}
+            className="text-indigo-600 hover:text-indigo-500 disabled:opacity-50"
+          >
+            {isFetching ? 'Retrying…' : 'Retry'}
+          </button>
+        ) : isLoading || !details
+          ? '…'
+          : balance !== undefined
+            ? <AmountDisplay amount={toAmount(balance, details.decimals)} symbol={details.symbol} />
+            : balanceError
+              ? (
+                <button
+                  type="button"
+                  onClick={refetchBalance}
+                  disabled={balanceFetching}
+                  title="Failed to load this balance"
+                  className="text-indigo-600 hover:text-indigo-500 disabled:opacity-50"
+                >
+                  {balanceFetching ? 'Retrying…' : 'Retry'}
+                </button>
+              )
+              : '—'}
+        <Link
+          to={`/points/${contract}/activity/${account}`}
+          className="ml-3 inline-flex align-middle text-gray-400 hover:text-indigo-600"
+          title="History on this contract"
+          aria-label="History on this contract"
+        >
+          <History className="h-4 w-4" />
+        </Link>
+      </span>
+    </li>
+  );
+}
+
+interface CollectibleHoldingsProps {
+  contract: string;
+  account: string;
+  onPointsContract: (contract: string) => void;
+}
+
+function CollectibleHoldings({ contract, account, onPointsContract }: CollectibleHoldingsProps) {
+  const { data: details, error, isLoading, isFetching, refetch } = useCollectibleDetails(contract);
+  const tokenMetadata = useOffChainTokenMetadata(contract, details?.tokenIds, details?.tokenMetadata);
+  const {
+    data: balances,
+    error: balancesError,
+    isFetching: balancesFetching,
+    refetch: refetchBalances,
+  } = useCollectibleBalances(contract, account, details?.tokenIds);
+
+  useEffect(() => {
+    if (details) onPointsContract(details.pointsContract);
+  }, [details, onPointsContract]);
+
+  const title = (
+    <div className="flex items-center justify-between">
+      <Link to={`/collectibles/${contract}`} className="flex items-center text-indigo-600 hover:text-indigo-500 font-medium">
+        <Package className="h-5 w-5 mr-2" />
+        {details?.name || contract}
+      </Link>
+      <Link
+        to={`/collectibles/${contract}/activity/${account}`}
+        className="flex items-center text-sm text-gray-500 hover:text-indigo-600"
+      >
+        <History className="h-4 w-4 mr-1" />
+        History
+      </Link>
+    </div>
+  );
+
+  if (details && !balances && balancesError) {
+    return (
+      <div>
+        {title}
+        <div className="mt-2">
+          <ContractErrorState
+            error={balancesError}
+            fallbackMessage="Failed to load your balances in this collection"
+            onRetry={refetchBalances}
+            retrying={balancesFetching}
+          />
+        </div>
+      </div>
+    );
+  }
+  if (isLoading || (details && !balances)) {
+    return <div>{title}<p className="mt-2 text-sm text-gray-500">Loading…</p></div>;
+  }
+  if (error || !details) {
+    return (
+      <div>
+        {title}
+        <p className="mt-2 text-sm text-red-600">
+          Failed to load this collection.{' '}
+          <button
+            type="button"
+            onClick={refetch}
+            disabled={isFetching}
+            className="font-medium text-indigo-600 hover:text-indigo-500 disabled:opacity-50"
+          >
+            {isFetching ? 'Retrying…' : 'Retry'}
+          </button>
+        </p>
+      </div>
+    );
+  }
+
+  const owned = details.tokenIds
+    .map((tokenId, index) => ({ tokenId, index, balance: balances?.[index] ?? 0n }))
+    .filter(item => item.balance > 0n);
+
+  return (
+    <div>
+      {title}
+      {owned.length === 0 ? (
+        <p className="mt-2 text-sm text-gray-500 italic">No collectibles owned in this collection.</p>
+      ) : (
+        <div className="mt-3 grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+          {owned.map(({ tokenId, index, balance }) => {
+            const { metadata } = validateTokenMetadata(tokenMetadata?.[index] ?? details.tokenMetadata[index]);
+            const name = metadata.name || `Token #${tokenId}`;
+            const image = metadata.image;
+            const expiry = details.expiryTimes[index];
+            const expired = isExpired(expiry);
+
+            return (
+              <Link
+                key={tokenId}
+                to={`/collectibles/${contract}/token/${tokenId}`}
+                className={`block p-4 rounded-lg border hover:border-indigo-500 transition-colors ${expired ? 'border-gray-200 opacity-60' : 'border-gray-200'}`}
+              >
+                {image && (
+                  <div className="mb-3 h-24 rounded overflow-hidden bg-gray-50">
+                    <MediaImage src={image} alt={name} className="w-full h-full object-contain" fallbackClassName="h-full" />
+                  </div>
+                )}
+                <div className="flex items-center justify-between">
+                  <span className="font-medium text-gray-900 truncate">{name}</span>
+                  <span className="ml-2 flex-shrink-0"><ExpiryBadge expiry={expiry} hideNone /></span>
+                </div>
+                <div className="text-sm text-gray-500">Owned: <AmountDisplay amount={toAmount(balance)} /></div>
+              </Link>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
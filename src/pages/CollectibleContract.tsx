@@ -1,95 +1,65 @@
-import React, { useEffect, useState } from 'react';
+import { useEffect, useState } from 'react';
 import { useParams, Link } from 'react-router-dom';
-import { Package, ExternalLink, Image as ImageIcon, ChevronDown, ChevronUp } from 'lucide-react';
-import { getCollectibleDetails } from '../services/contractService';
+import { Package, ExternalLink, ChevronDown, ChevronUp } from 'lucide-react';
+import { useCollectibleBalances, useCollectibleDetails, usePointsDetails } from '../hooks/useContractData';
+import { useNetwork } from '../hooks/useNetwork';
+import { useWallet } from '../hooks/useWallet';
+import { AmountDisplay } from '../components/AmountDisplay';
+import { PointsAmount } from '../components/PointsAmount';
+import { PointsUnitsNotice } from '../components/PointsUnitsNotice';
+import { toAmount } from '../utils/amount';
+import { formatMetadataJson, metadataFields } from '../utils/metadataDecoder';
+import { validateCollectionMetadata, validateTokenMetadata } from '../utils/metadataSchema';
+import { MetadataIssuesPanel } from '../components/MetadataIssuesPanel';
+import { MediaImage } from '../components/MediaImage';
+import { OffChainSourceNote } from '../components/OffChainSourceNote';
+import { Pagination, TokenGridControls } from '../components/TokenGridControls';
+import { useTokenFilters } from '../hooks/useTokenFilters';
+import { ExpiryBadge } from '../components/ExpiryBadge';
+import { TOKENS_PER_PAGE, TokenListItem, collectTraitValues, filterTokens } from '../utils/tokenFilters';
+import { resolveLinkUri } from '../utils/mediaUri';
+import { addRecentContract } from '../utils/recentContracts';
+import { ContractErrorState } from '../components/ContractErrorState';
+import { ActivityFeed } from '../components/ActivityFeed';
+import { CollectionAnalyticsPanel } from '../components/CollectionAnalyticsPanel';
+import { TabBar, TabOption } from '../components/TabBar';
+import { useTabParam } from '../hooks/useTabParam';
+import { useOffChainMetadata, useOffChainTokenMetadata } from '../hooks/useOffChainMetadata';
+import { ExportButtons } from '../components/ExportButtons';
+import { collectionExport, fieldRecords, tokenExport, tokenExportRecords } from '../utils/contractExport';
+import { ExportFormat, downloadExport, fileSlug } from '../utils/exportData';
 
-// Combined interface for all collectible details
-interface CollectibleData {
-  name: string;
-  metadata: any; 
-  pointsContract: string;
-  tokenIds: string[];
-  prices: string[];
-  expiryTimes: number[];
-  tokenMetadata: any[];
-  supplies: string[];
-}
+const TABS: TabOption<'overview' | 'analytics'>[] = [
+  { id: 'overview', label: 'Overview' },
+  { id: 'analytics', label: 'Analytics' },
+];
 
 export function CollectibleContract() {
   const { address } = useParams<{ address: string }>();
-  const [collectibleData, setCollectibleData] = useState<CollectibleData | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const { data: collectibleData, error, isLoading: loading, isFetching, refetch } = useCollectibleDetails(address);
+  const resolvedMetadata = useOffChainMetadata(address, collectibleData?.metadata);
+  const resolvedTokenMetadata = useOffChainTokenMetadata(address, collectibleData?.tokenIds, collectibleData?.tokenMetadata);
+  const { address: account } = useWallet();
+  const { data: balances } = useCollectibleBalances(address, account, collectibleData?.tokenIds);
+  // Prices are denominated in the linked points contract's units
+  const {
+    data: pointsDetails,
+    error: pointsError,
+    isFetching: pointsFetching,
+    refetch: refetchPoints,
+  } = usePointsDetails(collectibleData?.pointsContract);
+  // Undefined until the points contract loads; prices stay raw until then
+  const pointsDecimals = pointsDetails?.decimals;
+  const pointsSymbol = pointsDetails?.symbol || 'points';
+  const { filters, updateFilters, resetFilters } = useTokenFilters();
+  const { network } = useNetwork();
+  const [tab, selectTab] = useTabParam(TABS);
 
   useEffect(() => {
-    async function fetchDetails() {
-      try {
-        if (!address) return;
-        
-        const data = await getCollectibleDetails(address);
-        
-        if (!data) {
-          setError('Failed to fetch collectible contract details');
-          return;
-        }
-        
-        // Store the entire data object as received from the service
-        setCollectibleData(data);
-      } catch (err) {
-        console.error('Error fetching collectible contract details:', err);
-        setError('Failed to fetch collectible contract details');
-      } finally {
-        setLoading(false);
-      }
-    }
-
-    if (address) {
-      fetchDetails();
-    }
-  }, [address]);
-
-  // Helper function to format metadata for display
-  const formatMetadata = (metadata: any): string => {
-    if (!metadata) return '';
-    
-    // Custom replacer function to handle BigInt
-    const replacer = (key: string, value: any) => {
-      // Convert BigInt to string
-      if (typeof value === 'bigint') {
-        return value.toString();
-      }
-      return value;
-    };
-    
-    if (typeof metadata === 'string') {
-      // Check if it's already a JSON string
-      try {
-        const parsed = JSON.parse(metadata);
-        return JSON.stringify(parsed, replacer, 2);
-      } catch (e) {
-        // If it's not valid JSON, return as is
-        return metadata;
-      }
+    if (address && collectibleData) {
+      addRecentContract(network.id, { address, kind: 'collectible', name: collectibleData.name || undefined });
     }
-    
-    // If it's an object, stringify it nicely with our custom replacer
-    try {
-      return JSON.stringify(metadata, replacer, 2);
-    } catch (e) {
-      console.error('Error stringifying metadata:', e);
-      return String(metadata);
-    }
-  };
-
-  // Function to convert metadata to a hierarchical object structure for the UI
-  const getMetadataStructure = (metadata: any): [string, any][] => {
-    if (!metadata || typeof metadata !== 'object') return [];
-    
-    return Object.entries(metadata).filter(([key]) => 
-      // Filter out keys that we display elsewhere to avoid duplication
-      !['name', 'image', 'banner_image', 'description', 'external_link'].includes(key)
-    );
-  };
+  }, [network.id, address, collectibleData]);
 
   const MetadataTree = ({ data, level = 0 }: { data: any, level?: number }) => {
     const [expanded, setExpanded] = useState<Record<string, boolean>>({});
@@ -161,9 +131,9 @@ export function CollectibleContract() {
             ) : (
               <div className="flex flex-wrap">
                 <span className="text-gray-500 mr-2 font-medium">{key}:</span>
-                {typeof value === 'string' && (value.startsWith('http://') || value.startsWith('https://')) ? (
+                {typeof value === 'string' && resolveLinkUri(value) ? (
                   <a 
-                    href={value} 
+                    href={resolveLinkUri(value)!} 
                     target="_blank" 
                     rel="noopener noreferrer" 
                     className="text-indigo-600 hover:text-indigo-500 break-all"
@@ -189,11 +159,14 @@ export function CollectibleContract() {
     );
   }
 
-  if (error) {
+  if (error && !collectibleData) {
     return (
-      <div className="bg-red-50 p-4 rounded-lg">
-        <p className="text-red-700">{error}</p>
-      </div>
+      <ContractErrorState
+        error={error}
+        fallbackMessage="Failed to fetch collectible contract details"
+        onRetry={refetch}
+        retrying={isFetching}
+      />
     );
   }
 
@@ -202,43 +175,61 @@ export function CollectibleContract() {
   }
 
   // Get metadata values for display
-  const { name: displayName, metadata: collectionMetadata = {} } = collectibleData;
+  const displayName = collectibleData.name;
+  const decodedMetadata = resolvedMetadata ?? collectibleData.metadata;
+  const metadataRecord = metadataFields(decodedMetadata);
+  const { metadata: collectionMetadata, issues: collectionIssues } = validateCollectionMetadata(decodedMetadata);
+  const tokens = collectibleData.tokenIds.map((tokenId, index) => ({
+    tokenId,
+    ...validateTokenMetadata(resolvedTokenMetadata?.[index] ?? collectibleData.tokenMetadata[index]),
+  }));
+  const tokenItems: TokenListItem[] = tokens.map(({ tokenId, metadata }, index) => ({
+    tokenId,
+    index,
+    metadata,
+    price: collectibleData.prices[index],
+    expiry: collectibleData.expiryTimes[index],
+    supply: collectibleData.supplies[index],
+  }));
+  const matchingTokens = filterTokens(tokenItems, filters, pointsDecimals);
+  const pageCount = Math.max(1, Math.ceil(matchingTokens.length / TOKENS_PER_PAGE));
+  const page = Math.min(filters.page, pageCount);
+  const pageTokens = matchingTokens.slice((page - 1) * TOKENS_PER_PAGE, page * TOKENS_PER_PAGE);
+  const externalLink = resolveLinkUri(collectionMetadata.external_link);
+  const fileName = fileSlug(displayName, address ?? 'collection');
+
+  const exportCollection = (format: ExportFormat) => {
+    const collection = collectionExport(address ?? '', { ...collectibleData, metadata: decodedMetadata });
+    downloadExport(`${fileName}-collection`, format, fieldRecords(collection), collection);
+  };
+
+  // Exports the tokens matching the current filters, in their current order
+  const exportTokens = (format: ExportFormat) => {
+    downloadExport(`${fileName}-tokens`, format, tokenExportRecords(matchingTokens, pointsDecimals), tokenExport(matchingTokens));
+  };
 
   return (
     <div className="space-y-6">
       {/* Banner image if available */}
       {collectionMetadata.banner_image && (
         <div className="relative h-40 sm:h-60 overflow-hidden rounded-lg shadow-md">
-          <img 
-            src={typeof collectionMetadata.banner_image === 'string' 
-                ? collectionMetadata.banner_image 
-                : ''}
+          <MediaImage
+            src={collectionMetadata.banner_image}
             alt={`${displayName} banner`}
             className="w-full h-full object-cover"
-            onError={(e) => {
-              e.currentTarget.style.display = 'none';
-            }}
+            fallback={null}
           />
         </div>
       )}
     
       <div className="flex flex-col sm:flex-row sm:items-center space-y-4 sm:space-y-0 sm:space-x-6">
         {/* Collection image/logo if available */}
-        {collectionMetadata.image ? (
-          <img 
-            src={typeof collectionMetadata.image === 'string' 
-                ? collectionMetadata.image 
-                : ''}
-            alt={displayName}
-            className="h-20 w-20 rounded-lg shadow-md object-cover"
-            onError={(e) => {
-              e.currentTarget.style.display = 'none';
-              e.currentTarget.parentElement?.classList.remove('sm:space-x-6');
-            }}
-          />
-        ) : (
-          <Package className="h-16 w-16 text-indigo-600" />
-        )}
+        <MediaImage
+          src={collectionMetadata.image}
+          alt={displayName}
+          className="h-20 w-20 rounded-lg shadow-md object-cover"
+          fallback={<Package className="h-16 w-16 text-indigo-600" />}
+        />
         
         <div>
           <h1 className="text-3xl font-bold text-gray-900">{displayName}</h1>
@@ -250,11 +241,9 @@ export function CollectibleContract() {
               Points Contract <ExternalLink className="ml-1 h-4 w-4" />
             </Link>
             
-            {collectionMetadata.external_link && (
+            {externalLink && (
               <a 
-                href={typeof collectionMetadata.external_link === 'string' 
-                    ? collectionMetadata.external_link 
-                    : '#'}
+                href={externalLink}
                 target="_blank"
                 rel="noopener noreferrer"
                 className="text-indigo-600 hover:text-indigo-500 flex items-center"
@@ -266,106 +255,164 @@ export function CollectibleContract() {
         </div>
       </div>
 
-      {/* Collection description if available */}
-      {collectionMetadata.description && (
-        <div className="bg-white shadow rounded-lg overflow-hidden">
-          <div className="px-4 py-5 sm:p-6">
-            <h3 className="text-lg font-medium text-gray-900 mb-2">About this collection</h3>
-            <p className="text-gray-700">
-              {typeof collectionMetadata.description === 'string'
-                ? collectionMetadata.description
-                : JSON.stringify(collectionMetadata.description)}
-            </p>
-          </div>
-        </div>
-      )}
+      <TabBar tabs={TABS} selected={tab} onSelect={selectTab} />
 
-      <div className="bg-white shadow rounded-lg overflow-hidden">
-        <div className="px-4 py-5 sm:p-6">
-          <dl className="grid grid-cols-1 gap-x-4 gap-y-8 sm:grid-cols-2">
-            <div className="sm:col-span-1">
-              <dt className="text-sm font-medium text-gray-500">Contract Address</dt>
-              <dd className="mt-1 text-sm text-gray-900 break-all">{address}</dd>
+      {tab === 'overview' ? (
+        <>
+          {/* Collection description if available */}
+          {collectionMetadata.description && (
+            <div className="bg-white shadow rounded-lg overflow-hidden">
+              <div className="px-4 py-5 sm:p-6">
+                <h3 className="text-lg font-medium text-gray-900 mb-2">About this collection</h3>
+                <p className="text-gray-700">{collectionMetadata.description}</p>
+              </div>
             </div>
-            <div className="sm:col-span-2">
-              <dt className="text-sm font-medium text-gray-500">Metadata</dt>
-              <dd className="mt-2 text-sm text-gray-900 bg-white rounded-md p-4 border border-gray-200">
-                {collectibleData.metadata && Object.keys(collectibleData.metadata).length > 0 ? (
-                  <MetadataTree data={collectibleData.metadata} />
-                ) : (
-                  <div className="text-gray-500 italic">No metadata available</div>
-                )}
-                {/* Show view raw JSON option */}
-                <details className="mt-4">
-                  <summary className="cursor-pointer text-sm text-indigo-600 hover:text-indigo-500">
-                    View raw JSON
-                  </summary>
-                  <pre className="mt-2 whitespace-pre-wrap font-mono bg-gray-50 p-4 rounded-md overflow-auto max-h-64 text-xs">
-                    {formatMetadata(collectibleData.metadata)}
-                  </pre>
-                </details>
-              </dd>
+          )}
+
+          <MetadataIssuesPanel
+            groups={[
+              { label: 'Collection', issues: collectionIssues },
+              ...tokens.map(({ tokenId, issues }) => ({
+                label: `Token #${tokenId}`,
+                to: `/collectibles/${address}/token/${tokenId}`,
+                issues,
+              })),
+            ]}
+          />
+
+          <div className="bg-white shadow rounded-lg overflow-hidden">
+            <div className="px-4 py-5 sm:p-6">
+              <dl className="grid grid-cols-1 gap-x-4 gap-y-8 sm:grid-cols-2">
+                <div className="sm:col-span-1">
+                  <dt className="text-sm font-medium text-gray-500">Contract Address</dt>
+                  <dd className="mt-1 text-sm text-gray-900 break-all">{address}</dd>
+                </div>
+                <div className="sm:col-span-1">
+                  <dt className="text-sm font-medium text-gray-500">Export</dt>
+                  <dd className="mt-1">
+                    <ExportButtons onExport={exportCollection} subject="collection details and metadata" />
+                  </dd>
+                </div>
+                <div className="sm:col-span-2">
+                  <dt className="text-sm font-medium text-gray-500">Metadata</dt>
+                  <dd className="mt-2 text-sm text-gray-900 bg-white rounded-md p-4 border border-gray-200">
+                    {Object.keys(metadataRecord).length > 0 ? (
+                      <MetadataTree data={metadataRecord} />
+                    ) : decodedMetadata.format === 'text' ? (
+                      <div className="whitespace-pre-wrap">{String(decodedMetadata.value)}</div>
+                    ) : (
+                      <div className="text-gray-500 italic">No metadata available</div>
+                    )}
+                    {/* Show view raw JSON option */}
+                    <details className="mt-4">
+                      <summary className="cursor-pointer text-sm text-indigo-600 hover:text-indigo-500">
+                        View raw metadata ({decodedMetadata.format})
+                      </summary>
+                      <pre className="mt-2 whitespace-pre-wrap font-mono bg-gray-50 p-4 rounded-md overflow-auto max-h-64 text-xs">
+                        {formatMetadataJson(decodedMetadata.value)}
+                      </pre>
+                    </details>
+                    {decodedMetadata.offChain && (
+                      <OffChainSourceNote source={decodedMetadata.offChain} />
+                    )}
+                  </dd>
+                </div>
+              </dl>
             </div>
-          </dl>
-        </div>
-      </div>
+          </div>
 
-      <div className="bg-white shadow rounded-lg overflow-hidden">
-        <div className="px-4 py-5 sm:p-6">
-          <h2 className="text-lg font-medium text-gray-900 mb-4">Collectible Tokens</h2>
-          <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
-            {collectibleData.tokenIds.map((tokenId, index) => {
-              const tokenMetadata = collectibleData.tokenMetadata[index] || {};
-              let tokenImage = '';
-              let tokenName = `Token #${tokenId}`;
-              
-              if (tokenMetadata) {
-                if (tokenMetadata.image && typeof tokenMetadata.image === 'string') {
-                  tokenImage = tokenMetadata.image;
-                }
-                
-                if (tokenMetadata.name) {
-                  tokenName = typeof tokenMetadata.name === 'string' 
-                    ? tokenMetadata.name 
-                    : `Token #${tokenId}`;
-                }
-              }
-              
-              return (
-                <Link
-                  key={tokenId}
-                  to={`/collectibles/${address}/token/${tokenId}`}
-                  className="block p-4 rounded-lg border border-gray-200 hover:border-indigo-500 transition-colors"
-                >
-                  {tokenImage && (
-                    <div className="mb-3 h-32 rounded overflow-hidden bg-gray-50">
-                      <img 
-                        src={tokenImage} 
-                        alt={tokenName}
-                        className="w-full h-full object-contain"
-                        onError={(e) => {
-                          e.currentTarget.style.display = 'none';
-                          const placeholder = document.createElement('div');
-                          placeholder.className = 'flex items-center justify-center h-full';
-                          placeholder.innerHTML = '<svg class="h-10 w-10 text-gray-300" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path stroke-linecap="round" stroke-linejoin="round" stroke-width="1" d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" /></svg>';
-                          e.currentTarget.parentNode?.appendChild(placeholder);
-                        }}
-                      />
-                    </div>
-                  )}
-                  <div className="font-medium text-gray-900">{tokenName}</div>
-                  <div className="text-sm text-gray-500">
-                    Price: {collectibleData.prices[index]} points
-                  </div>
-                  <div className="text-sm text-gray-500">
-                    Supply: {collectibleData.supplies[index]}
-                  </div>
-                </Link>
-              );
-            })}
+          <div className="bg-white shadow rounded-lg overflow-hidden">
+            <div className="px-4 py-5 sm:p-6">
+              <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+                <h2 className="text-lg font-medium text-gray-900">Collectible Tokens</h2>
+                <ExportButtons onExport={exportTokens} subject="matching tokens" />
+              </div>
+              {pointsDecimals === undefined && (
+                <div className="mb-4">
+                  <PointsUnitsNotice error={pointsError} retrying={pointsFetching} onRetry={refetchPoints} />
+                </div>
+              )}
+              <TokenGridControls
+                filters={filters}
+                onChange={updateFilters}
+                onReset={resetFilters}
+                traitValues={collectTraitValues(tokenItems)}
+                priceSymbol={pointsSymbol}
+                priceDisabled={pointsDecimals === undefined}
+                resultCount={matchingTokens.length}
+                totalCount={tokenItems.length}
+              />
+              {matchingTokens.length === 0 && (
+                <p className="text-sm text-gray-500 italic">No tokens match these filters.</p>
+              )}
+              <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+                {pageTokens.map(({ tokenId, metadata: tokenMetadata, index }) => {
+                  const tokenImage = tokenMetadata.image;
+                  const tokenName = tokenMetadata.name || `Token #${tokenId}`;
+
+                  return (
+                    <Link
+                      key={tokenId}
+                      to={`/collectibles/${address}/token/${tokenId}`}
+                      className="block p-4 rounded-lg border border-gray-200 hover:border-indigo-500 transition-colors"
+                    >
+                      {tokenImage && (
+                        <div className="mb-3 h-32 rounded overflow-hidden bg-gray-50">
+                          <MediaImage
+                            src={tokenImage}
+                            alt={tokenName}
+                            className="w-full h-full object-contain"
+                            fallbackClassName="h-full"
+                          />
+                        </div>
+                      )}
+                      <div className="flex items-start justify-between">
+                        <div className="font-medium text-gray-900">{tokenName}</div>
+                        <ExpiryBadge expiry={collectibleData.expiryTimes[index]} hideNone />
+                      </div>
+                      <div className="text-sm text-gray-500">
+                        Price:{' '}
+                        <PointsAmount
+                          amount={collectibleData.prices[index]}
+                          decimals={pointsDecimals}
+                          failed={!!pointsError}
+                          symbol={pointsSymbol}
+                        />
+                      </div>
+                      <div className="text-sm text-gray-500">
+                        Supply: <AmountDisplay amount={toAmount(collectibleData.supplies[index])} compact />
+                      </div>
+                      {balances && (
+                        <div className={`text-sm ${balances[index] > 0n ? 'text-indigo-600 font-medium' : 'text-gray-500'}`}>
+                          You own: <AmountDisplay amount={toAmount(balances[index] ?? 0n)} />
+                        </div>
+                      )}
+                    </Link>
+                  );
+                })}
+              </div>
+              <Pagination page={page} pageCount={pageCount} onPageChange={(next) => updateFilters({ page: next })} />
+            </div>
           </div>
-        </div>
-      </div>
+
+          {address && <ActivityFeed contract={address} kind="collectible" />}
+        </>
+      ) : pointsDecimals === undefined ? (
+        <PointsUnitsNotice error={pointsError} retrying={pointsFetching} onRetry={refetchPoints} />
+      ) : address && (
+        <CollectionAnalyticsPanel
+          contract={address}
+          pointsContract={collectibleData.pointsContract}
+          tokens={tokenItems.map(({ tokenId, metadata, price }) => ({
+            tokenId,
+            name: metadata.name || `Token #${tokenId}`,
+            price,
+          }))}
+          collectionName={displayName}
+          pointsDecimals={pointsDecimals}
+          pointsSymbol={pointsSymbol}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,50 @@
+import { Link, useParams } from 'react-router-dom';
+import { History } from 'lucide-react';
+import { useCollectibleDetails, usePointsDetails } from '../hooks/useContractData';
+import type { ContractKind } from '../services/contractService';
+import { ActivityFeed } from '../components/ActivityFeed';
+
+/**
+ * History of one address on a points or collectible contract
+ */
+export function ContractActivity({ kind }: { kind: ContractKind }) {
+  const { address, account } = useParams<{ address: string; account: string }>();
+  const { data: points, error: pointsError } = usePointsDetails(kind === 'points' ? address : undefined);
+  const { data: collectible } = useCollectibleDetails(kind === 'collectible' ? address : undefined);
+
+  if (!address || !account) return null;
+
+  const contractPath = kind === 'points' ? `/points/${address}` : `/collectibles/${address}`;
+  const contractName = (kind === 'points' ? points?.name : collectible?.name) || address;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center space-x-4">
+        <History className="h-12 w-12 text-indigo-600" />
+        <div className="min-w-0">
+          <h1 className="text-3xl font-bold text-gray-900">Address history</h1>
+          <p className="text-sm text-gray-500 break-all">{account}</p>
+          <p className="text-sm text-gray-500">
+            on{' '}
+            <Link to={contractPath} className="text-indigo-600 hover:text-indigo-500 break-all">
+              {contractName}
+            </Link>
+            {' · '}
+            <Link to={`/account/${account}`} className="text-indigo-600 hover:text-indigo-500">
+              View rewards
+            </Link>
+          </p>
+        </div>
+      </div>
+
+      <ActivityFeed
+        contract={address}
+        kind={kind}
+        account={account}
+        decimals={points?.decimals}
+        decimalsFailed={!!pointsError}
+        symbol={points?.symbol}
+      />
+    </div>
+  );
+}
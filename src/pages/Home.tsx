@@ -0,0 +1,142 @@
+import { FormEvent, useEffect, useRef, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { Clock, Coins, Package, Search } from 'lucide-react';
+import { useNetwork } from '../hooks/useNetwork';
+import { ContractKind, detectContractKind } from '../services/contractService';
+import { parseAddress } from '../utils/address';
+import { shortenAddress } from '../utils/stringUtils';
+import { RecentContract, clearRecentContracts, getRecentContracts } from '../utils/recentContracts';
+
+const contractPath = (kind: ContractKind, address: string) =>
+  kind === 'points' ? `/points/${address}` : `/collectibles/${address}`;
+
+export function Home() {
+  const { network } = useNetwork();
+  const navigate = useNavigate();
+  const [input, setInput] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [checking, setChecking] = useState(false);
+  const [recent, setRecent] = useState<RecentContract[]>(() => getRecentContracts(network.id));
+  // Ignore lookups that finish after a newer one started or the page was left
+  const lookupId = useRef(0);
+
+  useEffect(() => {
+    setRecent(getRecentContracts(network.id));
+  }, [network.id]);
+
+  useEffect(() => () => {
+    lookupId.current++;
+  }, []);
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    const parsed = parseAddress(input);
+    if (parsed.error !== undefined) {
+      setError(parsed.error);
+      return;
+    }
+
+    const id = ++lookupId.current;
+    setError(null);
+    setChecking(true);
+    try {
+      const kind = await detectContractKind(parsed.address, network.id);
+      if (id !== lookupId.current) return;
+      if (kind) {
+        navigate(contractPath(kind, parsed.address));
+      } else {
+        setError('The contract at this address is not an InfiniRewards points or collectible contract');
+      }
+    } catch (err) {
+      if (id !== lookupId.current) return;
+      console.error('Error looking up contract:', err);
+      setError(`No contract could be loaded at this address on ${network.name}`);
+    } finally {
+      if (id === lookupId.current) setChecking(false);
+    }
+  };
+
+  const handleClear = () => {
+    clearRecentContracts(network.id);
+    setRecent([]);
+  };
+
+  return (
+    <div className="max-w-2xl mx-auto space-y-8">
+      <div className="text-center">
+        <h1 className="text-3xl font-bold text-gray-900">Explore InfiniRewards</h1>
+        <p className="mt-2 text-gray-500">
+          Enter a points or collectible contract address on {network.name} to view its details.
+        </p>
+      </div>
+
+      <form onSubmit={handleSubmit} noValidate>
+        <div className="flex space-x-2">
+          <label className="relative block flex-1">
+            <span className="sr-only">Contract address</span>
+            <Search className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
+            <input
+              type="text"
+              value={input}
+              onChange={(e) => {
+                setInput(e.target.value);
+                setError(null);
+              }}
+              placeholder="0x…"
+              spellCheck={false}
+              autoComplete="off"
+              aria-invalid={error !== null}
+              aria-describedby={error ? 'address-error' : undefined}
+              className="block w-full rounded-md border border-gray-300 py-2 pl-9 pr-3 font-mono text-sm focus:border-indigo-500 focus:outline-none focus:ring-1 focus:ring-indigo-500"
+            />
+          </label>
+          <button
+            type="submit"
+            disabled={checking}
+            className="rounded-md bg-indigo-600 px-4 py-2 text-sm font-medium text-white hover:bg-indigo-700 disabled:opacity-50"
+          >
+            {checking ? 'Looking up…' : 'Open'}
+          </button>
+        </div>
+        {error && (
+          <p id="address-error" className="mt-2 text-sm text-red-600">{error}</p>
+        )}
+      </form>
+
+      {recent.length > 0 && (
+        <div className="bg-white shadow rounded-lg">
+          <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200">
+            <h2 className="flex items-center text-sm font-medium text-gray-900">
+              <Clock className="h-4 w-4 mr-1 text-gray-400" /> Recently viewed
+            </h2>
+            <button type="button" onClick={handleClear} className="text-sm text-indigo-600 hover:text-indigo-500">
+              Clear
+            </button>
+          </div>
+          <ul className="divide-y divide-gray-200">
+            {recent.map(contract => (
+              <li key={contract.address}>
+                <Link
+                  to={contractPath(contract.kind, contract.address)}
+                  className="flex items-center px-4 py-3 hover:bg-gray-50"
+                >
+                  {contract.kind === 'points'
+                    ? <Coins className="h-5 w-5 mr-3 text-indigo-600 flex-shrink-0" />
+                    : <Package className="h-5 w-5 mr-3 text-indigo-600 flex-shrink-0" />}
+                  <span className="min-w-0 flex-1">
+                    <span className="block truncate text-sm font-medium text-gray-900">
+                      {contract.name || (contract.kind === 'points' ? 'Points contract' : 'Collectible contract')}
+                    </span>
+                    <span className="block font-mono text-xs text-gray-500" title={contract.address}>
+                      {shortenAddress(contract.address)}
+                    </span>
+                  </span>
+                </Link>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
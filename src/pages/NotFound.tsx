@@ -0,0 +1,26 @@
+import { Link } from 'react-router-dom';
+import { SearchX } from 'lucide-react';
+
+interface NotFoundProps {
+  title?: string;
+  message?: string;
+}
+
+/**
+ * Shown for unknown paths and for routes whose parameters are malformed
+ */
+export function NotFound({
+  title = 'Page not found',
+  message = 'There is nothing at this address. Check the link or look up a contract from the home page.',
+}: NotFoundProps) {
+  return (
+    <div className="bg-white shadow rounded-lg p-8 text-center">
+      <SearchX className="mx-auto h-12 w-12 text-indigo-600" />
+      <h1 className="mt-4 text-xl font-bold text-gray-900">{title}</h1>
+      <p className="mt-2 text-gray-500 break-words">{message}</p>
+      <Link to="/" className="mt-6 inline-block text-indigo-600 hover:text-indigo-500 font-medium">
+        Go to the home page
+      </Link>
+    </div>
+  );
+}
@@ -1,91 +1,56 @@
-import React, { useEffect, useState } from 'react';
+import { useEffect } from 'react';
 import { useParams } from 'react-router-dom';
 import { Coins } from 'lucide-react';
-import { getPointsDetails } from '../services/contractService';
-import { 
-  byteArrayToString, 
-  decodeCborMetadata, 
-  isCairoByteArray, 
-  decodeCairoByteArray,
-  decodeCairoByteArrayContent 
-} from '../utils/stringUtils';
+import { usePointsBalance, usePointsDetails } from '../hooks/useContractData';
+import { useNetwork } from '../hooks/useNetwork';
+import { useWallet } from '../hooks/useWallet';
+import { AmountDisplay } from '../components/AmountDisplay';
+import { toAmount } from '../utils/amount';
+import { formatMetadataJson } from '../utils/metadataDecoder';
+import { addRecentContract } from '../utils/recentContracts';
+import { ContractErrorState } from '../components/ContractErrorState';
+import { ActivityFeed } from '../components/ActivityFeed';
+import { HoldersPanel } from '../components/HoldersPanel';
+import { TabBar, TabOption } from '../components/TabBar';
+import { useTabParam } from '../hooks/useTabParam';
+import { ExportButtons } from '../components/ExportButtons';
+import { fieldRecords, pointsExport } from '../utils/contractExport';
+import { ExportFormat, downloadExport, fileSlug } from '../utils/exportData';
 
-interface PointsDetails {
-  name: string;
-  symbol: string;
-  metadata: any; // Change to any to handle complex objects
-  decimals: number;
-  totalSupply: number;
-}
+const TABS: TabOption<'overview' | 'holders'>[] = [
+  { id: 'overview', label: 'Overview' },
+  { id: 'holders', label: 'Holders' },
+];
 
 export function PointsContract() {
   const { address } = useParams<{ address: string }>();
-  const [details, setDetails] = useState<PointsDetails | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const { data: details, error, isLoading: loading, isFetching, refetch } = usePointsDetails(address);
+  const { address: account } = useWallet();
+  const {
+    data: balance,
+    error: balanceError,
+    isLoading: balanceLoading,
+    isFetching: balanceFetching,
+    refetch: refetchBalance,
+  } = usePointsBalance(address, account);
+  const { network } = useNetwork();
+  const [tab, selectTab] = useTabParam(TABS);
 
   useEffect(() => {
-    async function fetchDetails() {
-      try {
-        if (!address) return;
-        
-        const pointsDetails = await getPointsDetails(address);
-        setDetails(pointsDetails);
-      } catch (err) {
-        console.error('Error fetching points contract details:', err);
-        setError('Failed to fetch points contract details');
-      } finally {
-        setLoading(false);
-      }
-    }
-
-    if (address) {
-      fetchDetails();
+    if (address && details) {
+      addRecentContract(network.id, { address, kind: 'points', name: details.name || undefined });
     }
-  }, [address]);
-
-  // Helper function to format metadata for display
-  const formatMetadata = (metadata: any): string => {
-    if (!metadata) return '';
-    
-    // Custom replacer function to handle BigInt
-    const replacer = (key: string, value: any) => {
-      // Convert BigInt to string
-      if (typeof value === 'bigint') {
-        return value.toString();
-      }
-      return value;
-    };
-    
-    if (typeof metadata === 'string') {
-      // Check if it's already a JSON string
-      try {
-        const parsed = JSON.parse(metadata);
-        return JSON.stringify(parsed, replacer, 2);
-      } catch (e) {
-        // If it's not valid JSON, return as is
-        return metadata;
-      }
-    }
-    
-    // If it's an object, stringify it nicely with our custom replacer
-    try {
-      return JSON.stringify(metadata, replacer, 2);
-    } catch (e) {
-      console.error('Error stringifying metadata:', e);
-      return String(metadata);
-    }
-  };
+  }, [network.id, address, details]);
 
   // Helper to ensure we display string values
-  const getDisplayString = (value: any, defaultValue: string = ''): string => {
+  const getDisplayString = (value: unknown, defaultValue: string = ''): string => {
     if (value === undefined || value === null) return defaultValue;
     
     if (typeof value === 'string') return value;
     
     try {
       return JSON.stringify(value);
-    } catch (e) {
+    } catch {
       return String(value);
     }
   };
@@ -98,11 +63,14 @@ export function PointsContract() {
     );
   }
 
-  if (error) {
+  if (error && !details) {
     return (
-      <div className="bg-red-50 p-4 rounded-lg">
-        <p className="text-red-700">{error}</p>
-      </div>
+      <ContractErrorState
+        error={error}
+        fallbackMessage="Failed to fetch points contract details"
+        onRetry={refetch}
+        retrying={isFetching}
+      />
     );
   }
 
@@ -113,6 +81,11 @@ export function PointsContract() {
   const displayName = getDisplayString(details.name, 'Points Contract');
   const displaySymbol = getDisplayString(details.symbol, '');
 
+  const exportDetails = (format: ExportFormat) => {
+    const exported = pointsExport(address ?? '', details);
+    downloadExport(`${fileSlug(displayName, address ?? 'points')}-details`, format, fieldRecords(exported), exported);
+  };
+
   return (
     <div className="space-y-6">
       <div className="flex items-center space-x-4">
@@ -123,30 +96,67 @@ export function PointsContract() {
         </div>
       </div>
 
-      <div className="bg-white shadow rounded-lg overflow-hidden">
-        <div className="px-4 py-5 sm:p-6">
-          <dl className="grid grid-cols-1 gap-x-4 gap-y-8 sm:grid-cols-2">
-            <div className="sm:col-span-1">
-              <dt className="text-sm font-medium text-gray-500">Contract Address</dt>
-              <dd className="mt-1 text-sm text-gray-900 break-all">{address}</dd>
-            </div>
-            <div className="sm:col-span-1">
-              <dt className="text-sm font-medium text-gray-500">Decimals</dt>
-              <dd className="mt-1 text-sm text-gray-900">{details.decimals}</dd>
-            </div>
-            <div className="sm:col-span-1">
-              <dt className="text-sm font-medium text-gray-500">Total Supply</dt>
-              <dd className="mt-1 text-sm text-gray-900">{details.totalSupply}</dd>
-            </div>
-            <div className="sm:col-span-2">
-              <dt className="text-sm font-medium text-gray-500">Metadata</dt>
-              <dd className="mt-1 text-sm text-gray-900 whitespace-pre-wrap font-mono bg-gray-50 p-4 rounded-md overflow-auto max-h-64">
-                {formatMetadata(details.metadata)}
-              </dd>
+      <TabBar tabs={TABS} selected={tab} onSelect={selectTab} />
+
+      {tab === 'overview' ? (
+        <>
+          <div className="bg-white shadow rounded-lg overflow-hidden">
+            <div className="px-4 py-5 sm:p-6">
+              <dl className="grid grid-cols-1 gap-x-4 gap-y-8 sm:grid-cols-2">
+                <div className="sm:col-span-1">
+                  <dt className="text-sm font-medium text-gray-500">Contract Address</dt>
+                  <dd className="mt-1 text-sm text-gray-900 break-all">{address}</dd>
+                </div>
+                <div className="sm:col-span-1">
+                  <dt className="text-sm font-medium text-gray-500">Decimals</dt>
+                  <dd className="mt-1 text-sm text-gray-900">{details.decimals}</dd>
+                </div>
+                <div className="sm:col-span-1">
+                  <dt className="text-sm font-medium text-gray-500">Total Supply</dt>
+                  <dd className="mt-1 text-sm text-gray-900">
+                    <AmountDisplay amount={toAmount(details.totalSupply, details.decimals)} symbol={displaySymbol} copyable />
+                  </dd>
+                </div>
+                {account && (
+                  <div className="sm:col-span-1">
+                    <dt className="text-sm font-medium text-gray-500">Your Balance</dt>
+                    <dd className="mt-1 text-sm text-gray-900">
+                      {balanceLoading ? 'Loading…' : balance !== undefined ? (
+                        <AmountDisplay amount={toAmount(balance, details.decimals)} symbol={displaySymbol} copyable />
+                      ) : balanceError ? (
+                        <ContractErrorState
+                          error={balanceError}
+                          fallbackMessage="Failed to load your balance"
+                          onRetry={refetchBalance}
+                          retrying={balanceFetching}
+                        />
+                      ) : '—'}
+                    </dd>
+                  </div>
+                )}
+                <div className="sm:col-span-1">
+                  <dt className="text-sm font-medium text-gray-500">Export</dt>
+                  <dd className="mt-1">
+                    <ExportButtons onExport={exportDetails} subject="contract details and metadata" />
+                  </dd>
+                </div>
+                <div className="sm:col-span-2">
+                  <dt className="text-sm font-medium text-gray-500">Metadata ({details.metadata.format})</dt>
+                  <dd className="mt-1 text-sm text-gray-900 whitespace-pre-wrap font-mono bg-gray-50 p-4 rounded-md overflow-auto max-h-64">
+                    {formatMetadataJson(details.metadata.value)}
+                  </dd>
+                </div>
+              </dl>
             </div>
-          </dl>
-        </div>
-      </div>
+          </div>
+
+          {address && (
+            <ActivityFeed contract={address} kind="points" decimals={details.decimals} symbol={displaySymbol} />
+          )}
+        </>
+      ) : address && (
+        <HoldersPanel contract={address} decimals={details.decimals} symbol={displaySymbol} />
+      )}
     </div>
   );
-}
\ No newline at end of file
+}
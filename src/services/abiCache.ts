@@ -0,0 +1,28 @@
+import type { Abi } from 'starknet';
+import { getStoredItem, setStoredItem } from '../utils/persistentStore';
+
+const memoryCache = new Map<string, Abi>();
+
+const storageKey = (classHash: string) => `abi:${classHash}`;
+
+/**
+ * Look up a class ABI by class hash, first in memory then in persistent storage
+ */
+export async function getCachedAbi(classHash: string): Promise<Abi | undefined> {
+  const cached = memoryCache.get(classHash);
+  if (cached) return cached;
+
+  const stored = await getStoredItem<Abi>(storageKey(classHash));
+  if (stored) {
+    memoryCache.set(classHash, stored);
+  }
+  return stored;
+}
+
+/**
+ * Remember a class ABI. Declared classes are immutable, so entries never expire.
+ */
+export async function cacheAbi(classHash: string, abi: Abi): Promise<void> {
+  memoryCache.set(classHash, abi);
+  await setStoredItem(storageKey(classHash), abi);
+}
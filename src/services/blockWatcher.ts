@@ -0,0 +1,279 @@
+import { NetworkConfig, NetworkId, getNetwork } from '../config/networks';
+import { blockPollIntervalMs } from '../config/liveUpdates';
+import { getProvider, rpcRequest } from './contractService';
+import { queryCache } from './queryCache';
+
+export type WatchMode = 'polling' | 'websocket';
+
+export interface BlockWatcherState {
+  /** Latest block seen; null before the first check */
+  blockNumber: number | null;
+  /** Milliseconds since epoch of the last successful check; 0 before it */
+  checkedAt: number;
+  paused: boolean;
+  mode: WatchMode;
+  lastError?: string;
+}
+
+const PAUSED_STORAGE_KEY = 'infinirewards.liveUpdates.paused';
+
+// After a long pause or outage, scanning every missed block for events costs
+// more than refreshing everything on screen
+const MAX_SCANNED_BLOCKS = 100;
+
+const SOCKET_RETRY_MS = 30_000;
+const SUBSCRIBE_REQUEST_ID = 1;
+
+function readPaused(): boolean {
+  try {
+    return localStorage.getItem(PAUSED_STORAGE_KEY) === 'true';
+  } catch {
+    return false;
+  }
+}
+
+function writePaused(paused: boolean) {
+  try {
+    localStorage.setItem(PAUSED_STORAGE_KEY, String(paused));
+  } catch {
+    // Storage may be unavailable (private mode); the toggle still applies to this session
+  }
+}
+
+/**
+ * Follows new blocks on one network and refreshes cached reads of contracts
+ * that emitted events in them. New blocks come from a `starknet_subscribeNewHeads`
+ * WebSocket subscription when the network has a WebSocket URL and the node
+ * supports it, and from polling `starknet_blockNumber` otherwise. Watching
+ * runs while anyone is subscribed and live updates are not paused.
+ */
+class BlockWatcher {
+  private state: BlockWatcherState;
+  private listeners = new Set<() => void>();
+  private pollTimer?: ReturnType<typeof setTimeout>;
+  private socketRetryTimer?: ReturnType<typeof setTimeout>;
+  private socket?: WebSocket;
+  private socketUnsupported = false;
+  // New blocks are handled one at a time so ranges never overlap
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(private readonly network: NetworkConfig) {
+    this.state = {
+      blockNumber: null,
+      checkedAt: 0,
+      paused: readPaused(),
+      mode: network.wsUrl ? 'websocket' : 'polling',
+    };
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    if (this.listeners.size === 1) {
+      // The toggle is shared by all networks and may have changed on another one
+      this.state = { ...this.state, paused: readPaused() };
+      this.start();
+    }
+    return () => {
+      this.listeners.delete(listener);
+      if (this.listeners.size === 0) this.stop();
+    };
+  }
+
+  getState(): BlockWatcherState {
+    return this.state;
+  }
+
+  setPaused(paused: boolean) {
+    writePaused(paused);
+    this.update({ paused });
+    if (paused) {
+      this.stop();
+    } else if (this.listeners.size > 0) {
+      this.start();
+    }
+  }
+
+  private get running(): boolean {
+    return this.listeners.size > 0 && !this.state.paused;
+  }
+
+  private start() {
+    if (!this.running) return;
+    if (this.network.wsUrl && !this.socketUnsupported) {
+      // One poll gives the current block before the first notification arrives
+      this.poll(false);
+      this.connectSocket(this.network.wsUrl);
+    } else {
+      this.poll(true);
+    }
+  }
+
+  private stop() {
+    clearTimeout(this.pollTimer);
+    clearTimeout(this.socketRetryTimer);
+    this.pollTimer = undefined;
+    this.socketRetryTimer = undefined;
+    const socket = this.socket;
+    this.socket = undefined;
+    socket?.close();
+  }
+
+  private async poll(reschedule: boolean) {
+    this.pollTimer = undefined;
+    try {
+      const blockNumber = await rpcRequest(this.network.id, {}, () => getProvider(this.network.id).getBlockNumber());
+      this.enqueue(blockNumber);
+    } catch (error) {
+      console.warn('Error polling for new blocks:', error);
+      this.update({ lastError: error instanceof Error ? error.message : String(error) });
+    } finally {
+      if (reschedule && this.running && !this.socket && !this.pollTimer) {
+        this.pollTimer = setTimeout(() => this.poll(true), blockPollIntervalMs);
+      }
+    }
+  }
+
+  private connectSocket(url: string) {
+    let socket: WebSocket;
+    try {
+      socket = new WebSocket(url);
+    } catch (error) {
+      console.warn('Could not open the block subscription, polling instead:', error);
+      this.socketUnsupported = true;
+      this.fallBackToPolling();
+      return;
+    }
+    this.socket = socket;
+    this.update({ mode: 'websocket' });
+
+    socket.onopen = () => {
+      socket.send(JSON.stringify({
+        jsonrpc: '2.0',
+        id: SUBSCRIBE_REQUEST_ID,
+        method: 'starknet_subscribeNewHeads',
+        params: {},
+      }));
+    };
+
+    socket.onmessage = message => {
+      let payload;
+      try {
+        payload = JSON.parse(String(message.data));
+      } catch {
+        return;
+      }
+      if (payload?.id === SUBSCRIBE_REQUEST_ID && payload.error) {
+        // Nodes before RPC 0.8 have no subscriptions; do not ask again this session
+        console.warn('RPC node does not support block subscriptions, polling instead:', payload.error);
+        this.socketUnsupported = true;
+        socket.close();
+        return;
+      }
+      const blockNumber = payload?.params?.result?.block_number;
+      if (payload?.method === 'starknet_subscriptionNewHeads' && typeof blockNumber === 'number') {
+        this.enqueue(blockNumber);
+      }
+    };
+
+    socket.onclose = () => {
+      // Ignore sockets that were replaced or closed by stop()
+      if (this.socket !== socket) return;
+      this.socket = undefined;
+      this.fallBackToPolling();
+    };
+  }
+
+  // Poll while the socket is down and try it again later, unless the node
+  // does not support subscriptions at all
+  private fallBackToPolling() {
+    if (!this.running) return;
+    this.update({ mode: 'polling' });
+    this.poll(true);
+    if (!this.socketUnsupported && this.network.wsUrl) {
+      const url = this.network.wsUrl;
+      this.socketRetryTimer = setTimeout(() => {
+        this.socketRetryTimer = undefined;
+        if (!this.running) return;
+        clearTimeout(this.pollTimer);
+        this.pollTimer = undefined;
+        this.connectSocket(url);
+      }, SOCKET_RETRY_MS);
+    }
+  }
+
+  private enqueue(blockNumber: number) {
+    this.queue = this.queue.then(() => this.handleBlock(blockNumber));
+  }
+
+  private async handleBlock(blockNumber: number) {
+    const previous = this.state.blockNumber;
+    if (previous !== null && blockNumber > previous) {
+      try {
+        await this.refreshContracts(previous + 1, blockNumber);
+      } catch (error) {
+        console.warn('Error refreshing contracts for new blocks:', error);
+      }
+    }
+    this.update({
+      blockNumber: previous === null ? blockNumber : Math.max(previous, blockNumber),
+      checkedAt: Date.now(),
+      lastError: undefined,
+    });
+  }
+
+  /**
+   * Refresh cached reads of on-screen contracts that emitted events between
+   * `fromBlock` and `toBlock`. Reads for the different contracts go out in
+   * the same tick, so they share one JSON-RPC batch.
+   */
+  private async refreshContracts(fromBlock: number, toBlock: number) {
+    const networkId = this.network.id;
+    const contracts = queryCache.getActiveContracts(networkId);
+    if (contracts.length === 0) return;
+
+    if (toBlock - fromBlock >= MAX_SCANNED_BLOCKS) {
+      queryCache.invalidateQueries({ network: networkId });
+      return;
+    }
+
+    const provider = getProvider(networkId);
+    const changed = await Promise.all(contracts.map(async address => {
+      try {
+        const { events } = await rpcRequest(networkId, { address }, () => provider.getEvents({
+          address,
+          from_block: { block_number: fromBlock },
+          to_block: { block_number: toBlock },
+          chunk_size: 1,
+        }));
+        return events.length > 0;
+      } catch (error) {
+        // Without the events we cannot tell, so refresh to be safe
+        console.warn(`Error reading events of ${address}:`, error);
+        return true;
+      }
+    }));
+
+    contracts.forEach((contract, index) => {
+      if (changed[index]) queryCache.invalidateQueries({ network: networkId, contract });
+    });
+  }
+
+  private update(changes: Partial<BlockWatcherState>) {
+    this.state = { ...this.state, ...changes };
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+const watchers = new Map<NetworkId, BlockWatcher>();
+
+/**
+ * Get the block watcher for a network, creating it on first use
+ */
+export function getBlockWatcher(networkId: NetworkId): BlockWatcher {
+  let watcher = watchers.get(networkId);
+  if (!watcher) {
+    watcher = new BlockWatcher(getNetwork(networkId));
+    watchers.set(networkId, watcher);
+  }
+  return watcher;
+}
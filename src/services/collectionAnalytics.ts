@@ -0,0 +1,184 @@
+import { EventIndexDefinition, IndexedState } from './eventIndex';
+import { ActivityEvent, TokenAmount, getActivityInRange } from './eventService';
+
+export interface TokenAnalytics {
+  /** Units purchased or minted */
+  minted: bigint;
+  /** Units redeemed (burned) */
+  redeemed: bigint;
+  /** Points paid for this token in raw units of the points contract */
+  pointsSpent: bigint;
+  /** Addresses that redeemed this token at least once */
+  redeemers: ReadonlySet<string>;
+}
+
+export interface CollectionHistoryPoint {
+  block: number;
+  /** Units minted and redeemed in this block, over all tokens */
+  minted: bigint;
+  redeemed: bigint;
+}
+
+/**
+ * Purchases and redemptions of a collectible contract reconstructed from
+ * its TransferSingle and TransferBatch events
+ */
+export interface CollectionAnalytics extends IndexedState {
+  /** Per token id, only tokens that were ever minted */
+  tokens: ReadonlyMap<string, TokenAnalytics>;
+  /** Every block with a mint or redemption, oldest first */
+  history: readonly CollectionHistoryPoint[];
+}
+
+interface MutableTokenAnalytics extends TokenAnalytics {
+  redeemers: Set<string>;
+}
+
+interface StoredCollectionAnalytics {
+  indexedBlock: number;
+  tokens: [string, { minted: string; redeemed: string; pointsSpent: string; redeemers: string[] }][];
+  history: [number, string, string][];
+}
+
+/**
+ * Points the buyer paid in each transaction that minted collectibles, by
+ * transaction hash. Purchases move the price from the buyer's points
+ * balance in the same transaction as the mint.
+ */
+function pointsPaidByTransaction(mints: ActivityEvent[], pointsEvents: ActivityEvent[]): Map<string, bigint> {
+  const buyers = new Map(mints.map(mint => [mint.transactionHash, mint.to]));
+  const paid = new Map<string, bigint>();
+  for (const event of pointsEvents) {
+    if (event.type === 'mint' || event.amount === undefined) continue;
+    if (buyers.get(event.transactionHash) !== event.from) continue;
+    paid.set(event.transactionHash, (paid.get(event.transactionHash) ?? 0n) + event.amount);
+  }
+  return paid;
+}
+
+/**
+ * Apply collectible events (oldest first) and the points paid for their
+ * mints to the analytics, returning new analytics that cover everything up
+ * to `toBlock`
+ */
+function applyEvents(
+  analytics: CollectionAnalytics,
+  events: ActivityEvent[],
+  pointsPaid: ReadonlyMap<string, bigint>,
+  toBlock: number,
+): CollectionAnalytics {
+  const tokens = new Map(analytics.tokens);
+  const history = [...analytics.history];
+
+  // Copy a token's entry the first time it changes in this step
+  const copied = new Map<string, MutableTokenAnalytics>();
+  const token = (tokenId: string) => {
+    let entry = copied.get(tokenId);
+    if (!entry) {
+      const current = tokens.get(tokenId);
+      entry = current
+        ? { ...current, redeemers: new Set(current.redeemers) }
+        : { minted: 0n, redeemed: 0n, pointsSpent: 0n, redeemers: new Set<string>() };
+      tokens.set(tokenId, entry);
+      copied.set(tokenId, entry);
+    }
+    return entry;
+  };
+
+  const mintedByTransaction = new Map<string, TokenAmount[]>();
+  for (const event of events) {
+    if (event.type !== 'mint' || !event.tokens) continue;
+    mintedByTransaction.set(event.transactionHash, [
+      ...mintedByTransaction.get(event.transactionHash) ?? [],
+      ...event.tokens,
+    ]);
+  }
+
+  // A transaction minting several tokens has its points split by units minted
+  for (const [transactionHash, minted] of mintedByTransaction) {
+    const paid = pointsPaid.get(transactionHash);
+    if (!paid) continue;
+    const units = minted.reduce((sum, { amount }) => sum + amount, 0n);
+    if (units === 0n) continue;
+    let remaining = paid;
+    minted.forEach(({ tokenId, amount }, index) => {
+      const share = index === minted.length - 1 ? remaining : (paid * amount) / units;
+      token(tokenId).pointsSpent += share;
+      remaining -= share;
+    });
+  }
+
+  for (const event of events) {
+    if (!event.tokens || event.type === 'transfer') continue;
+    let units = 0n;
+    for (const { tokenId, amount } of event.tokens) {
+      const entry = token(tokenId);
+      if (event.type === 'mint') {
+        entry.minted += amount;
+      } else {
+        entry.redeemed += amount;
+        entry.redeemers.add(event.from);
+      }
+      units += amount;
+    }
+
+    const last = history[history.length - 1];
+    const point = last?.block === event.blockNumber
+      ? { ...last }
+      : { block: event.blockNumber, minted: 0n, redeemed: 0n };
+    if (event.type === 'mint') point.minted += units;
+    else point.redeemed += units;
+    if (last?.block === event.blockNumber) history[history.length - 1] = point;
+    else history.push(point);
+  }
+
+  return { indexedBlock: toBlock, tokens, history };
+}
+
+/**
+ * Purchase and redemption analytics of a collectible contract. Points spent
+ * are read from `pointsContract` for the transactions that minted
+ * collectibles.
+ */
+export function collectionAnalyticsIndex(
+  pointsContract: string,
+): EventIndexDefinition<CollectionAnalytics, StoredCollectionAnalytics> {
+  return {
+    name: 'collection',
+    empty: { indexedBlock: -1, tokens: new Map(), history: [] },
+    version: 1,
+    toStored: analytics => ({
+      indexedBlock: analytics.indexedBlock,
+      tokens: [...analytics.tokens].map(([tokenId, token]) => [tokenId, {
+        minted: token.minted.toString(),
+        redeemed: token.redeemed.toString(),
+        pointsSpent: token.pointsSpent.toString(),
+        redeemers: [...token.redeemers],
+      }]),
+      history: analytics.history.map(({ block, minted, redeemed }) => [block, minted.toString(), redeemed.toString()]),
+    }),
+    fromStored: stored => ({
+      indexedBlock: stored.indexedBlock,
+      tokens: new Map(stored.tokens.map(([tokenId, token]) => [tokenId, {
+        minted: BigInt(token.minted),
+        redeemed: BigInt(token.redeemed),
+        pointsSpent: BigInt(token.pointsSpent),
+        redeemers: new Set(token.redeemers),
+      }])),
+      history: stored.history.map(([block, minted, redeemed]) => ({
+        block,
+        minted: BigInt(minted),
+        redeemed: BigInt(redeemed),
+      })),
+    }),
+    apply: async (analytics, { address, networkId, fromBlock, toBlock }) => {
+      const events = await getActivityInRange(address, 'collectible', networkId, fromBlock, toBlock);
+      // The points contract only needs reading where something was bought
+      const mints = events.filter(event => event.type === 'mint');
+      const pointsEvents = mints.length > 0
+        ? await getActivityInRange(pointsContract, 'points', networkId, fromBlock, toBlock)
+        : [];
+      return applyEvents(analytics, events, pointsPaidByTransaction(mints, pointsEvents), toBlock);
+    },
+  };
+}
@@ -1,18 +1,126 @@
-import { Contract, Provider } from 'starknet';
-import { decode } from 'cbor2';
+import { Abi as StarknetAbi, CallData, Contract, LibraryError, Provider, RpcError } from 'starknet';
+import { NetworkId, getNetwork } from '../config/networks';
+import { collectibleContractAbi, pointsContractAbi } from '../contracts/abi';
+import { Abi, AbiFunctionName, AbiSchemaMismatchError, DecodedOutputs, decodeFunctionOutputs } from '../contracts/decoder';
+import { toStarknetAbi } from '../contracts/abiConverter';
+import { DecodedMetadata, byteStringToText, decodeMetadata } from '../utils/metadataDecoder';
+import { cacheAbi, getCachedAbi } from './abiCache';
+import { rpcRetryPolicy } from '../config/retry';
+import { withRetry } from '../utils/retry';
+import {
+  ClassNotFoundError,
+  ContractNotDeployedError,
+  DecodeError,
+  NetworkUnavailableError,
+  RpcRequestError,
+  WrongContractTypeError,
+  isRetryableError,
+} from './errors';
+import { ALL_ENDPOINTS_FAILED, getRpcPool } from './rpcPool';
+import { createBatchingFetch } from './rpcBatch';
 
-const RPC_URL = 'https://starknet-sepolia.public.blastapi.io/rpc/v0_7';
+const providers = new Map<NetworkId, Provider>();
 
-export const provider = new Provider({  nodeUrl: RPC_URL  });
+/**
+ * Get the provider for a network, creating it on first use. Reads made in
+ * the same tick are sent as one JSON-RPC batch, and requests go through the
+ * network's endpoint pool, which fails over between RPC URLs.
+ */
+export function getProvider(networkId: NetworkId): Provider {
+  let provider = providers.get(networkId);
+  if (!provider) {
+    const pool = getRpcPool(networkId);
+    provider = new Provider({
+      nodeUrl: pool.primaryUrl,
+      chainId: getNetwork(networkId).chainId,
+      baseFetch: createBatchingFetch(pool.fetch),
+    });
+    providers.set(networkId, provider);
+  }
+  return provider;
+}
+
+export interface RpcTarget {
+  address?: string;
+  classHash?: string;
+}
+
+// starknet.js rethrows failed fetches and unparseable responses as plain
+// errors, keeping only the message; these are the browser and Node wordings
+// of network errors and of JSON.parse failing on a non-JSON body
+const TRANSPORT_FAILURE =
+  /failed to fetch|fetch failed|networkerror|load failed|network request failed|unexpected token|unexpected end of json input|json\.parse:|json parse error/i;
+
+function isTransportFailure(error: unknown): boolean {
+  return (
+    error instanceof Error &&
+    !(error instanceof LibraryError) &&
+    (error.message.startsWith(ALL_ENDPOINTS_FAILED) || TRANSPORT_FAILURE.test(error.message))
+  );
+}
+
+/**
+ * Map an error thrown by starknet.js to one of the classes in `errors.ts`
+ */
+function toServiceError(error: unknown, networkId: NetworkId, target: RpcTarget): unknown {
+  if (error instanceof RpcError) {
+    if (error.isType('CONTRACT_NOT_FOUND') && target.address) {
+      return new ContractNotDeployedError(target.address, networkId);
+    }
+    if (error.isType('CLASS_HASH_NOT_FOUND') && target.classHash) {
+      return new ClassNotFoundError(target.classHash, networkId);
+    }
+    return new RpcRequestError(error.request.method, error.code, error.baseError.message);
+  }
+  if (isTransportFailure(error)) return new NetworkUnavailableError(networkId, error);
+  return error;
+}
+
+/**
+ * Send an RPC request, translating failures into service errors and
+ * retrying the transient ones according to `rpcRetryPolicy`
+ */
+export async function rpcRequest<T>(networkId: NetworkId, target: RpcTarget, request: () => Promise<T>): Promise<T> {
+  return withRetry(
+    async () => {
+      try {
+        return await request();
+      } catch (error) {
+        throw toServiceError(error, networkId, target);
+      }
+    },
+    rpcRetryPolicy,
+    isRetryableError
+  );
+}
+
+// Class hash per deployed contract, remembered for the session
+const classHashes = new Map<string, string>();
 
-export async function getContractAbi(address: string): Promise<any> {
+/**
+ * Fetch the on-chain ABI of a deployed contract. ABIs are cached by class
+ * hash in memory and in persistent storage, so only the class hash lookup
+ * hits the RPC once a class has been seen.
+ */
+export async function getContractAbi(address: string, networkId: NetworkId): Promise<StarknetAbi> {
   try {
-    const classHash = await provider.getClassHashAt(address);
-    if (!classHash) throw new Error('Contract not found');
+    const provider = getProvider(networkId);
+    const addressKey = `${networkId}:${address}`;
+    let classHash = classHashes.get(addressKey);
+    if (!classHash) {
+      classHash = await rpcRequest(networkId, { address }, () => provider.getClassHashAt(address));
+      if (!classHash) throw new ContractNotDeployedError(address, networkId);
+      classHashes.set(addressKey, classHash);
+    }
 
-    const contractClass = await provider.getClassByHash(classHash);
-    if (!contractClass) throw new Error('Contract class not found');
+    const cachedAbi = await getCachedAbi(classHash);
+    if (cachedAbi) return cachedAbi;
 
+    const hash = classHash;
+    const contractClass = await rpcRequest(networkId, { classHash: hash }, () => provider.getClassByHash(hash));
+    if (!contractClass) throw new ClassNotFoundError(hash, networkId);
+
+    await cacheAbi(classHash, contractClass.abi);
     return contractClass.abi;
   } catch (error) {
     console.error('Error fetching contract ABI:', error);
@@ -20,177 +128,283 @@ export async function getContractAbi(address: string): Promise<any> {
   }
 }
 
-export async function getContract(address: string): Promise<Contract> {
-  const abi = await getContractAbi(address);
-  return new Contract(abi, address, provider);
+/**
+ * Build a contract from its on-chain ABI
+ */
+export async function getContract(address: string, networkId: NetworkId): Promise<Contract> {
+  const abi = await getContractAbi(address, networkId);
+  return new Contract(abi, address, getProvider(networkId));
+}
+
+export type ContractKind = 'points' | 'collectible';
+
+// Function names of an ABI, including those declared inside Cairo 1 interfaces
+function abiFunctionNames(abi: StarknetAbi): Set<string> {
+  const names = new Set<string>();
+  for (const entry of abi) {
+    if (entry.type === 'function') names.add(entry.name);
+    if (entry.type === 'interface' && Array.isArray(entry.items)) {
+      for (const item of entry.items) {
+        if (item.type === 'function') names.add(item.name);
+      }
+    }
+  }
+  return names;
+}
+
+function implementsViews(names: Set<string>, abi: Abi): boolean {
+  return abi
+    .filter(entry => entry.stateMutability === 'view')
+    .every(entry => names.has(entry.name));
 }
 
 /**
- * Helper function to convert a string to Uint8Array for CBOR decoding
+ * Work out whether a deployed contract is a points or a collectible contract
+ * by checking its on-chain ABI for the view functions this app calls.
+ * Resolves to null for contracts that are neither; throws if there is no
+ * contract at the address.
  */
-export function stringToUint8Array(str: string) {
-  const uint8Array = new Uint8Array(str.length);
-  for (let i = 0; i < str.length; i++) {
-    uint8Array[i] = str.charCodeAt(i);
+export async function detectContractKind(address: string, networkId: NetworkId): Promise<ContractKind | null> {
+  const names = abiFunctionNames(await getContractAbi(address, networkId));
+  // Collectible contracts expose a superset of the points views, so check them first
+  if (implementsViews(names, collectibleContractAbi)) return 'collectible';
+  if (implementsViews(names, pointsContractAbi)) return 'points';
+  return null;
+}
+
+/**
+ * Turn a failed read on a contract page into a more specific error when the
+ * contract is missing or is not the expected kind. Probes the contract's
+ * class to tell these apart and returns the original error when neither applies.
+ */
+export async function explainContractError(
+  error: unknown,
+  address: string,
+  expected: ContractKind,
+  networkId: NetworkId,
+): Promise<unknown> {
+  if (error instanceof NetworkUnavailableError || error instanceof ContractNotDeployedError) return error;
+
+  let kind: ContractKind | null;
+  try {
+    kind = await detectContractKind(address, networkId);
+  } catch (probeError) {
+    if (probeError instanceof NetworkUnavailableError || probeError instanceof ContractNotDeployedError) {
+      return probeError;
+    }
+    return error;
   }
-  return uint8Array;
+
+  return kind === expected ? error : new WrongContractTypeError(address, expected, kind);
 }
 
-export async function getCollectibleDetails(
-  collectiblesContractAddress: string,
-): Promise<{
+const bundledAbis = new Map<Abi, StarknetAbi>();
+
+function getBundledAbi(abi: Abi): StarknetAbi {
+  let starknetAbi = bundledAbis.get(abi);
+  if (!starknetAbi) {
+    starknetAbi = toStarknetAbi(abi);
+    bundledAbis.set(abi, starknetAbi);
+  }
+  return starknetAbi;
+}
+
+/**
+ * Build a contract from one of the ABIs bundled in `abi.ts`, without any
+ * RPC round trip
+ */
+export function getBundledContract(abi: Abi, address: string, networkId: NetworkId): Contract {
+  return new Contract(getBundledAbi(abi), address, getProvider(networkId));
+}
+
+/**
+ * Call a view function using the bundled ABI and decode the result into a
+ * typed struct. If the response does not fit the bundled ABI, the same raw
+ * response is parsed again with the contract's on-chain ABI.
+ */
+export async function callContractFunction<A extends Abi, N extends AbiFunctionName<A>>(
+  abi: A,
+  address: string,
+  networkId: NetworkId,
+  functionName: N,
+  args: unknown[] = [],
+): Promise<DecodedOutputs<A, N>> {
+  const contract = getBundledContract(abi, address, networkId);
+  const raw = await rpcRequest(
+    networkId,
+    { address },
+    () => contract.call(functionName, args as string[], { parseResponse: false }) as Promise<string[]>
+  );
+
+  try {
+    const parsed = new CallData(getBundledAbi(abi)).parse(functionName, raw);
+    return decodeFunctionOutputs(abi, functionName, parsed);
+  } catch (bundledError) {
+    console.warn(`Bundled ABI could not decode "${functionName}", falling back to on-chain ABI:`, bundledError);
+  }
+
+  const onChainAbi = await getContractAbi(address, networkId);
+  try {
+    const parsed = new CallData(onChainAbi).parse(functionName, raw);
+    return decodeFunctionOutputs(abi, functionName, parsed);
+  } catch (onChainError) {
+    // A schema mismatch already says what is wrong; anything else is a parse failure
+    if (onChainError instanceof AbiSchemaMismatchError) throw onChainError;
+    throw new DecodeError(functionName, onChainError);
+  }
+}
+
+export interface CollectibleDetails {
   name: string;
-  metadata: any;
+  /** On-chain metadata; off-chain documents it references are loaded by `useOffChainMetadata` */
+  metadata: DecodedMetadata;
   pointsContract: string;
   tokenIds: string[];
-  prices: string[];
+  /** Prices in raw units of the linked points contract */
+  prices: bigint[];
   expiryTimes: number[];
-  tokenMetadata: any[];
-  supplies: string[];
-} | null> {
+  /** On-chain metadata per token, see `metadata` */
+  tokenMetadata: DecodedMetadata[];
+  supplies: bigint[];
+}
+
+export interface TokenData {
+  pointsContract: string;
+  /** Price in raw units of the linked points contract */
+  price: bigint;
+  expiry: number;
+  metadata: DecodedMetadata;
+  supply: bigint;
+}
+
+export interface PointsDetails {
+  name: string;
+  symbol: string;
+  metadata: DecodedMetadata;
+  decimals: number;
+  /** Total supply in raw units; apply `decimals` for display */
+  totalSupply: bigint;
+}
+
+export async function getCollectibleDetails(
+  collectiblesContractAddress: string,
+  networkId: NetworkId,
+): Promise<CollectibleDetails> {
   try {
-    // Get the collectibles contract
-    const collectiblesContract = await getContract(collectiblesContractAddress);
-    
     // Get details - this matches the interface in InfiniRewardsCollectible
-    const result = await collectiblesContract.call("get_details");
-    
-    // The result is already parsed by the contract.call method
-    // Cast to any to access array elements
-    const resultArray = result as any[];
-    
-    const name = resultArray[0];
-    
-    // Decode metadata using CBOR
-    const metadataBytes = stringToUint8Array(resultArray[1]);
-    let metadata;
-    try {
-      metadata = decode(metadataBytes);
-    } catch (error) {
-      console.error("Error decoding metadata:", error);
-      metadata = {metadata: resultArray[1]}; // Fallback to raw value
-    }
-    
-    const pointsContract = resultArray[2].toString();
-    
-    // Process arrays
-    const tokenIds = (resultArray[3] || []).map((id: any) => id.toString());
-    const prices = (resultArray[4] || []).map((price: any) => price.toString());
-    const expiryTimes = (resultArray[5] || []).map((time: any) => Number(time));
-    
-    // Process token metadata array - each item needs CBOR decoding
-    const tokenMetadataArray = resultArray[6] || [];
-    const tokenMetadata = tokenMetadataArray.map((item: any) => {
-      try {
-        const bytes = stringToUint8Array(item);
-        return decode(bytes);
-      } catch (error) {
-        console.error("Error decoding token metadata item:", error);
-        return {metadata: item}; // Fallback to raw value
-      }
-    });
-    
-    const supplies = (resultArray[7] || []).map((supply: any) => supply.toString());
-    
+    const details = await callContractFunction(
+      collectibleContractAbi,
+      collectiblesContractAddress,
+      networkId,
+      "get_details"
+    );
+
     return {
-      name,
-      metadata,
-      pointsContract,
-      tokenIds,
-      prices,
-      expiryTimes,
-      tokenMetadata,
-      supplies
+      name: byteStringToText(details.name),
+      metadata: decodeMetadata(details.metadata),
+      pointsContract: details.points_contract,
+      tokenIds: details.token_ids.map((id) => id.toString()),
+      prices: details.token_prices,
+      expiryTimes: details.token_expiry.map((time) => Number(time)),
+      tokenMetadata: details.token_metadata.map((item) => decodeMetadata(item)),
+      supplies: details.token_supplies
     };
   } catch (error) {
     console.error("Error getting collectible details:", error);
-    return null;
+    throw error;
   }
 }
 
-
 export async function getTokenData(
   tokenId: string,
   collectiblesContractAddress: string,
-): Promise<{
-  pointsContract: string;
-  price: string;
-  expiry: number;
-  metadata: any;
-  supply: number;
-} | null> {
+  networkId: NetworkId,
+): Promise<TokenData> {
   try {
-    // Get the collectibles contract
-    const collectiblesContract = await getContract(collectiblesContractAddress);
-    
     // Get token data
-    const result = await collectiblesContract.call("get_token_data", [tokenId]);
-    
-    // The result is already parsed by the contract.call method
-    // Cast to any to access array elements
-    const resultArray = result as any[];
-    
-    const pointsContract = resultArray[0].toString();
-    const price = resultArray[1].toString();
-    const expiry = Number(resultArray[2]);
-    
-    // Decode metadata using CBOR
-    const metadataBytes = stringToUint8Array(resultArray[3]);
-    let metadata;
-    try {
-      metadata = decode(metadataBytes);
-    } catch (error) {
-      console.error("Error decoding metadata:", error);
-      metadata = {metadata: resultArray[3]}; // Fallback to raw value
-    }
-    
-    const supply = Number(resultArray[4]);
-    
+    const tokenData = await callContractFunction(
+      collectibleContractAbi,
+      collectiblesContractAddress,
+      networkId,
+      "get_token_data",
+      [tokenId]
+    );
+
     return {
-      pointsContract,
-      price,
-      expiry,
-      metadata,
-      supply
+      pointsContract: tokenData.points_contract,
+      price: tokenData.price,
+      expiry: Number(tokenData.expiry),
+      metadata: decodeMetadata(tokenData.metadata),
+      supply: tokenData.supply
     };
   } catch (error) {
     console.error("Error getting token data for tokenId:", tokenId, "and contract address:", collectiblesContractAddress, error);
-    return null;
+    throw error;
   }
 }
 
 export async function getPointsDetails(
-  pointsContractAddress: string
-): Promise<{
-  name: string;
-  symbol: string;
-  metadata: any;
-  decimals: number;
-  totalSupply: number;
-} | null> {
+  pointsContractAddress: string,
+  networkId: NetworkId,
+): Promise<PointsDetails> {
   try {
-    // Get the points contract
-    const pointsContract = await getContract(pointsContractAddress);
-    
     // Get details
-    const rawResult = await pointsContract.call("get_details");
+    const details = await callContractFunction(
+      pointsContractAbi,
+      pointsContractAddress,
+      networkId,
+      "get_details"
+    );
 
-    const result = rawResult as any;
-
-    const metadata = stringToUint8Array(result[2]);
-
-    const decodedMetadata = decode(metadata);
-    
-    // Use our serialization utility to parse the result
     return {
-      name: result[0],
-      symbol: result[1],
-      metadata: decodedMetadata as any,
-      decimals: Number(result[3]),
-      totalSupply: Number(result[4])
+      name: byteStringToText(details.name),
+      symbol: byteStringToText(details.symbol),
+      metadata: decodeMetadata(details.metadata),
+      decimals: Number(details.decimals),
+      totalSupply: details.total_supply
     };
   } catch (error) {
-    console.error("Error getting points details:", error, (error as Error).stack);
+    console.error("Error getting points details:", error);
     throw error;
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Points balance of an account on a points contract, in raw units
+ */
+export async function getPointsBalance(
+  pointsContractAddress: string,
+  accountAddress: string,
+  networkId: NetworkId,
+): Promise<bigint> {
+  const { balance } = await callContractFunction(
+    pointsContractAbi,
+    pointsContractAddress,
+    networkId,
+    "balance_of",
+    [accountAddress]
+  );
+  return balance;
+}
+
+/**
+ * How many of each token an account holds on a collectible contract, read
+ * with a single `balance_of_batch` call
+ */
+export async function getCollectibleBalances(
+  collectiblesContractAddress: string,
+  accountAddress: string,
+  tokenIds: string[],
+  networkId: NetworkId,
+): Promise<bigint[]> {
+  if (tokenIds.length === 0) return [];
+
+  const { balances } = await callContractFunction(
+    collectibleContractAbi,
+    collectiblesContractAddress,
+    networkId,
+    "balance_of_batch",
+    [tokenIds.map(() => accountAddress), tokenIds]
+  );
+  return balances;
+}
@@ -0,0 +1,114 @@
+import type { NetworkId } from '../config/networks';
+import type { ContractKind } from './contractService';
+
+export { AbiSchemaMismatchError } from '../contracts/decoder';
+
+/**
+ * No contract is deployed at the address on the selected network
+ */
+export class ContractNotDeployedError extends Error {
+  constructor(
+    public readonly address: string,
+    public readonly networkId: NetworkId,
+  ) {
+    super(`No contract is deployed at ${address} on ${networkId}`);
+    this.name = 'ContractNotDeployedError';
+  }
+}
+
+/**
+ * A class hash has no declared class on the network
+ */
+export class ClassNotFoundError extends Error {
+  constructor(
+    public readonly classHash: string,
+    public readonly networkId: NetworkId,
+  ) {
+    super(`Class ${classHash} is not declared on ${networkId}`);
+    this.name = 'ClassNotFoundError';
+  }
+}
+
+/**
+ * The contract exists but is not the kind the page expects. `actual` is null
+ * when it is not an InfiniRewards contract at all.
+ */
+export class WrongContractTypeError extends Error {
+  constructor(
+    public readonly address: string,
+    public readonly expected: ContractKind,
+    public readonly actual: ContractKind | null,
+  ) {
+    super(`${address} is ${actual ? `a ${actual}` : 'not an InfiniRewards'} contract, expected a ${expected} contract`);
+    this.name = 'WrongContractTypeError';
+  }
+}
+
+/**
+ * The collection does not define the requested token id
+ */
+export class TokenNotFoundError extends Error {
+  constructor(
+    public readonly address: string,
+    public readonly tokenId: string,
+  ) {
+    super(`Token ${tokenId} does not exist in collection ${address}`);
+    this.name = 'TokenNotFoundError';
+  }
+}
+
+/**
+ * The RPC endpoint could not be reached or did not answer with JSON-RPC
+ */
+export class NetworkUnavailableError extends Error {
+  constructor(
+    public readonly networkId: NetworkId,
+    public readonly cause?: unknown,
+  ) {
+    super(`The ${networkId} RPC endpoint is unavailable${cause instanceof Error ? `: ${cause.message}` : ''}`);
+    this.name = 'NetworkUnavailableError';
+  }
+}
+
+// JSON-RPC error codes that usually go away on their own: the node's
+// catch-all UNEXPECTED_ERROR, JSON-RPC internal errors and provider rate limits
+const TRANSIENT_RPC_CODES = new Set([63, -32603, -32005, 429]);
+
+/**
+ * The node answered with a JSON-RPC error not covered by a more specific class
+ */
+export class RpcRequestError extends Error {
+  constructor(
+    public readonly method: string,
+    public readonly code: number,
+    message: string,
+  ) {
+    super(`RPC ${method} failed with ${code}: ${message}`);
+    this.name = 'RpcRequestError';
+  }
+
+  get transient(): boolean {
+    return TRANSIENT_RPC_CODES.has(this.code);
+  }
+}
+
+/**
+ * A contract response could not be parsed with either the bundled or the
+ * on-chain ABI
+ */
+export class DecodeError extends Error {
+  constructor(
+    public readonly functionName: string,
+    public readonly cause: unknown,
+  ) {
+    super(`Could not decode the response of "${functionName}"${cause instanceof Error ? `: ${cause.message}` : ''}`);
+    this.name = 'DecodeError';
+  }
+}
+
+/**
+ * Whether retrying the operation that threw `error` may succeed
+ */
+export function isRetryableError(error: unknown): boolean {
+  return error instanceof NetworkUnavailableError || (error instanceof RpcRequestError && error.transient);
+}
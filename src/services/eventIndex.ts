@@ -0,0 +1,136 @@
+import { NetworkId } from '../config/networks';
+import { normalizeAddress } from '../utils/address';
+import { getStoredItem, setStoredItem } from '../utils/persistentStore';
+import { getProvider, rpcRequest } from './contractService';
+
+/**
+ * State rebuilt from a contract's events, block range by block range
+ */
+export interface IndexedState {
+  /** Last block whose events are included; -1 before anything was indexed */
+  indexedBlock: number;
+}
+
+export interface EventRange {
+  address: string;
+  networkId: NetworkId;
+  fromBlock: number;
+  toBlock: number;
+}
+
+/**
+ * How to build and store one kind of event index
+ */
+export interface EventIndexDefinition<T extends IndexedState, S> {
+  /** Storage key prefix; every contract and network gets its own index */
+  name: string;
+  /** State before any block was indexed */
+  empty: T;
+  /** Bumped when the stored shape changes, so older indexes are rebuilt */
+  version: number;
+  /** Persistent storage may fall back to localStorage, so this must be JSON safe */
+  toStored: (state: T) => S;
+  fromStored: (stored: S) => T;
+  /** Read the contract's events in `range` and return `state` with them applied, covering up to `range.toBlock` */
+  apply: (state: T, range: EventRange) => Promise<T>;
+}
+
+export interface EventIndexProgress<T> {
+  state: T;
+  /** Block the current sync started from */
+  startBlock: number;
+  /** Block the current sync is catching up to */
+  latestBlock: number;
+}
+
+interface StoredEventIndex<S> {
+  version: number;
+  /** Hash of the indexed block, to notice when the chain no longer has it */
+  blockHash?: string;
+  data: S;
+}
+
+interface IndexHead<T> {
+  state: T;
+  /** Hash of `state.indexedBlock` when it was indexed */
+  blockHash?: string;
+}
+
+// Blocks read per step; the index is saved after each one, so an
+// interrupted sync resumes where it stopped
+const INDEX_RANGE = 100_000;
+
+// Latest state per index, so syncs in the same session skip storage
+const heads = new Map<string, IndexHead<IndexedState>>();
+
+async function loadHead<T extends IndexedState, S>(definition: EventIndexDefinition<T, S>, key: string): Promise<IndexHead<T>> {
+  const cached = heads.get(key) as IndexHead<T> | undefined;
+  if (cached) return cached;
+  const stored = await getStoredItem<StoredEventIndex<S>>(key);
+  return stored?.version === definition.version && stored.data
+    ? { state: definition.fromStored(stored.data), blockHash: stored.blockHash }
+    : { state: definition.empty };
+}
+
+async function getBlockHash(networkId: NetworkId, blockNumber: number): Promise<string | undefined> {
+  const block = await rpcRequest(networkId, {}, () => getProvider(networkId).getBlock(blockNumber));
+  return 'block_hash' in block ? block.block_hash : undefined;
+}
+
+// False when the indexed block is past the chain head or was replaced, e.g.
+// after a devnet restart or a reorg
+async function isOnChain(head: IndexHead<IndexedState>, latestBlock: number, networkId: NetworkId): Promise<boolean> {
+  const { indexedBlock } = head.state;
+  if (indexedBlock < 0) return true;
+  if (indexedBlock > latestBlock) return false;
+  if (head.blockHash === undefined) return true;
+  const blockHash = await getBlockHash(networkId, indexedBlock);
+  return blockHash !== undefined && BigInt(blockHash) === BigInt(head.blockHash);
+}
+
+/**
+ * Bring an event index of a contract up to the latest block and return it.
+ * The index is kept in persistent storage, so only blocks after the last
+ * sync are read from the node. `onProgress` receives the partial state
+ * after each step.
+ */
+export async function syncEventIndex<T extends IndexedState, S>(
+  definition: EventIndexDefinition<T, S>,
+  address: string,
+  networkId: NetworkId,
+  onProgress?: (progress: EventIndexProgress<T>) => void,
+): Promise<T> {
+  try {
+    const key = `${definition.name}:${networkId}:${normalizeAddress(address)}`;
+    const head = await loadHead(definition, key);
+
+    const latestBlock = await rpcRequest(networkId, {}, () => getProvider(networkId).getBlockNumber());
+    let state = head.state;
+    if (!(await isOnChain(head, latestBlock, networkId))) {
+      console.warn(`Indexed blocks of ${key} are no longer on chain, rebuilding the index`);
+      state = definition.empty;
+    }
+    const startBlock = state.indexedBlock + 1;
+    onProgress?.({ state, startBlock, latestBlock });
+
+    while (state.indexedBlock < latestBlock) {
+      const fromBlock = state.indexedBlock + 1;
+      const toBlock = Math.min(latestBlock, fromBlock + INDEX_RANGE - 1);
+      // Read before the events, so a reorg during the step fails the next check
+      const blockHash = await getBlockHash(networkId, toBlock);
+      state = await definition.apply(state, { address, networkId, fromBlock, toBlock });
+      heads.set(key, { state, blockHash });
+      await setStoredItem<StoredEventIndex<S>>(key, {
+        version: definition.version,
+        blockHash,
+        data: definition.toStored(state),
+      });
+      onProgress?.({ state, startBlock, latestBlock });
+    }
+
+    return state;
+  } catch (error) {
+    console.error(`Error syncing ${definition.name} index:`, error);
+    throw error;
+  }
+}
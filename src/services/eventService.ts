@@ -0,0 +1,277 @@
+import { AbiEvents, CallData, Provider, addAddressPadding, events, hash, num } from 'starknet';
+import { NetworkId } from '../config/networks';
+import { addressesEqual } from '../utils/address';
+import { ContractKind, getContractAbi, getProvider, rpcRequest } from './contractService';
+
+/**
+ * What an activity entry did. Burns on collectible contracts are
+ * redemptions, so they are reported as `redeem`.
+ */
+export type ActivityType = 'mint' | 'transfer' | 'burn' | 'redeem';
+
+export const ACTIVITY_TYPES: Record<ContractKind, ActivityType[]> = {
+  points: ['mint', 'transfer', 'burn'],
+  collectible: ['mint', 'transfer', 'redeem'],
+};
+
+export interface TokenAmount {
+  tokenId: string;
+  amount: bigint;
+}
+
+export interface ActivityEvent {
+  /** Transaction hash and position of the event within the transaction */
+  id: string;
+  type: ActivityType;
+  /** Event name from the contract ABI, e.g. TransferSingle */
+  name: string;
+  blockNumber: number;
+  transactionHash: string;
+  from: string;
+  to: string;
+  /** Account that moved collectibles on behalf of `from` */
+  operator?: string;
+  /** Points moved in raw units; set on points contracts */
+  amount?: bigint;
+  /** Collectibles moved; set on collectible contracts */
+  tokens?: TokenAmount[];
+}
+
+export interface ActivityFilter {
+  /** Only these types; all types when empty */
+  types?: ActivityType[];
+  /** Only events sent, received or operated by this address */
+  account?: string;
+}
+
+export interface ActivityPage {
+  /** Newest first */
+  events: ActivityEvent[];
+  /** Oldest block scanned for this page */
+  fromBlock: number;
+  /** Block to continue from for older events; null once block 0 was scanned */
+  nextBlock: number | null;
+}
+
+// Events this feed understands. OpenZeppelin components emit them flat, so
+// the first key is the selector of the plain event name.
+const ACTIVITY_EVENTS = ['Transfer', 'TransferSingle', 'TransferBatch'];
+
+// Events are scanned newest first in block ranges of this size, each range
+// read with getEvents continuation tokens until the page is full
+const BLOCK_RANGE = 10_000;
+const MAX_RANGES_PER_PAGE = 10;
+const CHUNK_SIZE = 100;
+export const ACTIVITY_PAGE_SIZE = 25;
+
+type EmittedEvent = Awaited<ReturnType<Provider['getEvents']>>['events'][number];
+
+interface EventDecoder {
+  /** Selectors to request from the node */
+  selectors: string[];
+  decode(event: EmittedEvent): { name: string; fields: Record<string, unknown> } | null;
+}
+
+/**
+ * Build a decoder for the activity events declared in the contract's
+ * on-chain ABI
+ */
+async function getEventDecoder(address: string, networkId: NetworkId): Promise<EventDecoder> {
+  const abi = await getContractAbi(address, networkId);
+  const abiEvents: AbiEvents = events.getAbiEvents(abi);
+  const structs = CallData.getAbiStruct(abi);
+  const enums = CallData.getAbiEnum(abi);
+
+  return {
+    selectors: ACTIVITY_EVENTS
+      .map(name => num.toHex(hash.getSelectorFromName(name)))
+      .filter(selector => selector in abiEvents),
+    decode(event) {
+      // parseEvents consumes the keys it reads, so hand it a copy
+      const [selector, ...keys] = event.keys;
+      const [parsed] = events.parseEvents(
+        [{ ...event, keys: [num.toHex(selector), ...keys], data: [...event.data] }],
+        abiEvents,
+        structs,
+        enums
+      );
+      if (!parsed) return null;
+
+      const fullName = Object.keys(parsed).find(key => !['block_hash', 'block_number', 'transaction_hash'].includes(key));
+      if (!fullName) return null;
+      return { name: fullName.split('::').pop()!, fields: parsed[fullName] as Record<string, unknown> };
+    },
+  };
+}
+
+// parseEvents returns addresses as bigints, which addAddressPadding would read as decimal
+function toAddress(value: unknown): string {
+  return addAddressPadding(num.toHex(value as num.BigNumberish));
+}
+
+function toBigInts(value: unknown): bigint[] {
+  if (!Array.isArray(value)) throw new Error(`Expected an array, got ${typeof value}`);
+  return value.map(item => num.toBigInt(item));
+}
+
+const ZERO_ADDRESS = addAddressPadding('0x0');
+
+/**
+ * Turn a decoded Transfer, TransferSingle or TransferBatch event into an
+ * activity entry
+ */
+function toActivityEvent(
+  kind: ContractKind,
+  event: EmittedEvent,
+  id: string,
+  name: string,
+  fields: Record<string, unknown>,
+): ActivityEvent {
+  const from = toAddress(fields.from);
+  const to = toAddress(fields.to);
+  const type: ActivityType = from === ZERO_ADDRESS
+    ? 'mint'
+    : to === ZERO_ADDRESS
+      ? kind === 'collectible' ? 'redeem' : 'burn'
+      : 'transfer';
+
+  const activity: ActivityEvent = {
+    id,
+    type,
+    name,
+    blockNumber: event.block_number,
+    transactionHash: event.transaction_hash,
+    from,
+    to,
+  };
+
+  if (name === 'Transfer') {
+    activity.amount = num.toBigInt(fields.value as num.BigNumberish);
+  } else {
+    activity.operator = toAddress(fields.operator);
+    const ids = name === 'TransferSingle' ? [num.toBigInt(fields.id as num.BigNumberish)] : toBigInts(fields.ids);
+    const amounts = name === 'TransferSingle' ? [num.toBigInt(fields.value as num.BigNumberish)] : toBigInts(fields.values);
+    if (ids.length !== amounts.length) {
+      throw new Error(`${ids.length} token ids but ${amounts.length} amounts`);
+    }
+    activity.tokens = ids.map((tokenId, index) => ({ tokenId: tokenId.toString(), amount: amounts[index] }));
+  }
+  return activity;
+}
+
+function matchesFilter(event: ActivityEvent, { types, account }: ActivityFilter): boolean {
+  if (types && types.length > 0 && !types.includes(event.type)) return false;
+  if (account) {
+    const parties = [event.from, event.to, event.operator].filter((party): party is string => !!party);
+    if (!parties.some(party => addressesEqual(party, account))) return false;
+  }
+  return true;
+}
+
+/**
+ * All activity events of a contract in a block range, oldest first
+ */
+async function getRangeEvents(
+  address: string,
+  networkId: NetworkId,
+  selectors: string[],
+  fromBlock: number,
+  toBlock: number,
+): Promise<EmittedEvent[]> {
+  const provider = getProvider(networkId);
+  const collected: EmittedEvent[] = [];
+  let continuationToken: string | undefined;
+
+  do {
+    const token = continuationToken;
+    const chunk = await rpcRequest(networkId, { address }, () => provider.getEvents({
+      address,
+      from_block: { block_number: fromBlock },
+      to_block: { block_number: toBlock },
+      keys: [selectors],
+      chunk_size: CHUNK_SIZE,
+      continuation_token: token,
+    }));
+    collected.push(...chunk.events);
+    continuationToken = chunk.continuation_token;
+  } while (continuationToken);
+
+  return collected;
+}
+
+// Decode raw events in chain order, numbering them per transaction so every
+// entry gets a stable id
+function decodeEvents(kind: ContractKind, decoder: EventDecoder, rawEvents: EmittedEvent[]): ActivityEvent[] {
+  const perTransaction = new Map<string, number>();
+  const decoded: ActivityEvent[] = [];
+  for (const event of rawEvents) {
+    const position = perTransaction.get(event.transaction_hash) ?? 0;
+    perTransaction.set(event.transaction_hash, position + 1);
+    try {
+      const parsed = decoder.decode(event);
+      if (!parsed) continue;
+      decoded.push(toActivityEvent(kind, event, `${event.transaction_hash}:${position}`, parsed.name, parsed.fields));
+    } catch (error) {
+      // One malformed event should not hide the rest of the activity
+      console.warn('Skipping event that does not match the contract ABI:', event, error);
+    }
+  }
+  return decoded;
+}
+
+/**
+ * All decoded activity of a contract from `fromBlock` to `toBlock`
+ * inclusive, oldest first
+ */
+export async function getActivityInRange(
+  address: string,
+  kind: ContractKind,
+  networkId: NetworkId,
+  fromBlock: number,
+  toBlock: number,
+): Promise<ActivityEvent[]> {
+  const decoder = await getEventDecoder(address, networkId);
+  if (decoder.selectors.length === 0) return [];
+  return decodeEvents(kind, decoder, await getRangeEvents(address, networkId, decoder.selectors, fromBlock, toBlock));
+}
+
+/**
+ * Read a page of decoded activity for a points or collectible contract,
+ * newest first, starting at `beforeBlock` (the latest block by default).
+ * Block ranges are scanned until the page has enough matching events, so a
+ * page may hold more than `ACTIVITY_PAGE_SIZE` events, or none at all if a
+ * filter matches nothing recent.
+ */
+export async function getActivityPage(
+  address: string,
+  kind: ContractKind,
+  networkId: NetworkId,
+  filter: ActivityFilter = {},
+  beforeBlock?: number,
+): Promise<ActivityPage> {
+  try {
+    const decoder = await getEventDecoder(address, networkId);
+    // A contract without these events has no activity this feed can show
+    if (decoder.selectors.length === 0) return { events: [], fromBlock: 0, nextBlock: null };
+
+    let toBlock = beforeBlock ?? await rpcRequest(networkId, {}, () => getProvider(networkId).getBlockNumber());
+    const page: ActivityEvent[] = [];
+
+    for (let range = 0; range < MAX_RANGES_PER_PAGE && toBlock >= 0 && page.length < ACTIVITY_PAGE_SIZE; range++) {
+      const fromBlock = Math.max(0, toBlock - BLOCK_RANGE + 1);
+      const rangeEvents = await getRangeEvents(address, networkId, decoder.selectors, fromBlock, toBlock);
+      const matching = decodeEvents(kind, decoder, rangeEvents).filter(event => matchesFilter(event, filter));
+      page.push(...matching.reverse());
+      toBlock = fromBlock - 1;
+    }
+
+    return {
+      events: page,
+      fromBlock: toBlock + 1,
+      nextBlock: toBlock >= 0 ? toBlock : null,
+    };
+  } catch (error) {
+    console.error('Error getting contract activity:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,81 @@
+import { EventIndexDefinition, IndexedState } from './eventIndex';
+import { ActivityEvent, getActivityInRange } from './eventService';
+
+export interface SupplyPoint {
+  block: number;
+  /** Total supply in raw units after the block */
+  supply: bigint;
+}
+
+/**
+ * Balances of a points contract reconstructed from its Transfer events
+ */
+export interface HolderIndex extends IndexedState {
+  /** Non-zero balances in raw units by address */
+  balances: ReadonlyMap<string, bigint>;
+  /** Total supply after every block with a mint or burn, oldest first */
+  supplyHistory: readonly SupplyPoint[];
+}
+
+interface StoredHolderIndex {
+  indexedBlock: number;
+  balances: [string, string][];
+  supplyHistory: [number, string][];
+}
+
+/**
+ * Apply Transfer events (oldest first) to an index, returning a new index
+ * that covers everything up to `toBlock`
+ */
+function applyTransfers(index: HolderIndex, events: ActivityEvent[], toBlock: number): HolderIndex {
+  const balances = new Map(index.balances);
+  const supplyHistory = [...index.supplyHistory];
+
+  const adjust = (address: string, delta: bigint) => {
+    const balance = (balances.get(address) ?? 0n) + delta;
+    if (balance === 0n) {
+      balances.delete(address);
+    } else {
+      balances.set(address, balance);
+    }
+  };
+
+  for (const event of events) {
+    if (event.amount === undefined) continue;
+    if (event.type !== 'mint') adjust(event.from, -event.amount);
+    if (event.type !== 'burn') adjust(event.to, event.amount);
+
+    if (event.type === 'mint' || event.type === 'burn') {
+      const last = supplyHistory[supplyHistory.length - 1];
+      const supply = (last?.supply ?? 0n) + (event.type === 'mint' ? event.amount : -event.amount);
+      if (last?.block === event.blockNumber) {
+        supplyHistory[supplyHistory.length - 1] = { block: event.blockNumber, supply };
+      } else {
+        supplyHistory.push({ block: event.blockNumber, supply });
+      }
+    }
+  }
+
+  return { indexedBlock: toBlock, balances, supplyHistory };
+}
+
+/**
+ * Holder index of a points contract, built from its Transfer events
+ */
+export const holderIndex: EventIndexDefinition<HolderIndex, StoredHolderIndex> = {
+  name: 'holders',
+  empty: { indexedBlock: -1, balances: new Map(), supplyHistory: [] },
+  version: 1,
+  toStored: index => ({
+    indexedBlock: index.indexedBlock,
+    balances: [...index.balances].map(([address, balance]) => [address, balance.toString()]),
+    supplyHistory: index.supplyHistory.map(({ block, supply }) => [block, supply.toString()]),
+  }),
+  fromStored: stored => ({
+    indexedBlock: stored.indexedBlock,
+    balances: new Map(stored.balances.map(([address, balance]) => [address, BigInt(balance)])),
+    supplyHistory: stored.supplyHistory.map(([block, supply]) => ({ block, supply: BigInt(supply) })),
+  }),
+  apply: async (index, { address, networkId, fromBlock, toBlock }) =>
+    applyTransfers(index, await getActivityInRange(address, 'points', networkId, fromBlock, toBlock), toBlock),
+};
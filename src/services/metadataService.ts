@@ -0,0 +1,282 @@
+import { DecodedMetadata, bytesToHex, decodeMetadata, hexToBytes, metadataFields } from '../utils/metadataDecoder';
+import { resolveMediaUri } from '../utils/mediaUri';
+import { getStoredItem, setStoredItem } from '../utils/persistentStore';
+
+/** Off-chain documents larger than this are rejected */
+export const MAX_OFF_CHAIN_METADATA_BYTES = 256 * 1024;
+
+const FETCH_TIMEOUT_MS = 10_000;
+
+// Documents fetched at the same time; a collection may reference one per token
+const MAX_CONCURRENT_FETCHES = 4;
+
+// Content behind mutable (https) URIs is refetched after this long
+const MUTABLE_CACHE_TTL_MS = 10 * 60 * 1000;
+
+// Keys that point to the off-chain document, in order of preference
+const REFERENCE_KEYS = ['token_uri', 'metadata_uri', 'uri'];
+
+// Keys that may carry the expected SHA-256 of the off-chain document
+const HASH_KEYS = ['metadata_hash', 'uri_hash', 'sha256'];
+
+interface MetadataReference {
+  uri: string;
+  /** Expected SHA-256 as lowercase hex, if the issuer provided one */
+  sha256?: string;
+  /** Hash value that was provided but is not a SHA-256 digest */
+  invalidHash?: string;
+  /** On-chain fields other than the reference itself */
+  inline: Record<string, unknown>;
+}
+
+interface StoredDocument {
+  hex: string;
+  url: string;
+  fetchedAt: number;
+}
+
+const inFlight = new Map<string, Promise<StoredDocument>>();
+
+let activeFetches = 0;
+const waitingFetches: (() => void)[] = [];
+
+/**
+ * Run a fetch once fewer than `MAX_CONCURRENT_FETCHES` are in progress
+ */
+async function withFetchSlot<T>(task: () => Promise<T>): Promise<T> {
+  if (activeFetches < MAX_CONCURRENT_FETCHES) {
+    activeFetches++;
+  } else {
+    // The finishing fetch hands its slot over directly
+    await new Promise<void>(resolve => waitingFetches.push(resolve));
+  }
+  try {
+    return await task();
+  } finally {
+    const next = waitingFetches.shift();
+    if (next) next();
+    else activeFetches--;
+  }
+}
+
+const storageKey = (uri: string, sha256?: string) => `metadata:${sha256 ?? ''}:${uri}`;
+
+function isResolvableUri(value: unknown): value is string {
+  return typeof value === 'string' && !/\s/.test(value.trim()) && resolveMediaUri(value).length > 0;
+}
+
+/**
+ * Accepts 0x-prefixed or bare hex, `sha256:<hex>` and SRI-style
+ * `sha256-<base64>` digests
+ */
+function normalizeSha256(value: unknown): string | undefined {
+  if (typeof value !== 'string') return undefined;
+  const trimmed = value.trim();
+
+  if (trimmed.startsWith('sha256-')) {
+    try {
+      const binary = atob(trimmed.slice('sha256-'.length));
+      return Array.from(binary, char => char.charCodeAt(0).toString(16).padStart(2, '0')).join('');
+    } catch {
+      return undefined;
+    }
+  }
+
+  const hex = trimmed.replace(/^sha256:/i, '').replace(/^0x/i, '').toLowerCase();
+  return /^[0-9a-f]{64}$/.test(hex) ? hex : undefined;
+}
+
+/**
+ * Find an off-chain reference in decoded metadata: either the whole value
+ * is a URI, or an object carries one under `token_uri`, `metadata_uri` or `uri`
+ */
+function findReference(decoded: DecodedMetadata): MetadataReference | null {
+  if (decoded.format === 'text' && isResolvableUri(decoded.value)) {
+    return { uri: decoded.value.trim(), inline: {} };
+  }
+
+  const fields = metadataFields(decoded);
+  const key = REFERENCE_KEYS.find(name => isResolvableUri(fields[name]));
+  const uri = key && fields[key];
+  if (!key || !isResolvableUri(uri)) return null;
+
+  const hashKey = HASH_KEYS.find(name => fields[name] !== undefined);
+  const inline = { ...fields };
+  delete inline[key];
+  if (hashKey) delete inline[hashKey];
+
+  const sha256 = hashKey ? normalizeSha256(fields[hashKey]) : undefined;
+  return {
+    uri: uri.trim(),
+    sha256,
+    invalidHash: hashKey && !sha256 ? String(fields[hashKey]) : undefined,
+    inline,
+  };
+}
+
+async function sha256Hex(bytes: Uint8Array): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return bytesToHex(new Uint8Array(digest)).slice(2);
+}
+
+/**
+ * Read a response body, giving up as soon as it exceeds `maxBytes`
+ */
+async function readLimited(response: Response, maxBytes: number): Promise<Uint8Array> {
+  const declared = Number(response.headers.get('content-length'));
+  if (declared > maxBytes) {
+    throw new Error(`Document is ${declared} bytes, the limit is ${maxBytes}`);
+  }
+
+  if (!response.body) {
+    const bytes = new Uint8Array(await response.arrayBuffer());
+    if (bytes.length > maxBytes) throw new Error(`Document exceeds the ${maxBytes} byte limit`);
+    return bytes;
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    total += value.length;
+    if (total > maxBytes) {
+      await reader.cancel();
+      throw new Error(`Document exceeds the ${maxBytes} byte limit`);
+    }
+    chunks.push(value);
+  }
+
+  const bytes = new Uint8Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return bytes;
+}
+
+class HashMismatchError extends Error {
+  constructor(expected: string, actual: string) {
+    super(`Content hash mismatch: expected sha256 ${expected} but got ${actual}`);
+    this.name = 'HashMismatchError';
+  }
+}
+
+async function fetchFromCandidates(uri: string, sha256: string | undefined): Promise<StoredDocument> {
+  const errors: string[] = [];
+
+  for (const url of resolveMediaUri(uri)) {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
+    try {
+      const response = await fetch(url, { signal: controller.signal });
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      const bytes = await readLimited(response, MAX_OFF_CHAIN_METADATA_BYTES);
+
+      if (sha256) {
+        const actual = await sha256Hex(bytes);
+        // A mismatch means the content itself is wrong, so other gateways will not help
+        if (actual !== sha256) {
+          throw new HashMismatchError(sha256, actual);
+        }
+      }
+
+      return { hex: bytesToHex(bytes), url, fetchedAt: Date.now() };
+    } catch (error) {
+      if (error instanceof HashMismatchError) throw error;
+      errors.push(`${url}: ${(error as Error).message}`);
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+
+  throw new Error(errors.length > 0 ? errors.join('; ') : 'No loadable URL');
+}
+
+function isImmutable(uri: string, sha256: string | undefined): boolean {
+  return sha256 !== undefined || /^(ipfs|ar):\/\//i.test(uri) || !/^https?:\/\//i.test(uri);
+}
+
+/**
+ * Fetch an off-chain metadata document, using the persistent cache when the
+ * stored copy is still valid. Concurrent requests for the same document
+ * share one fetch.
+ */
+async function loadDocument(uri: string, sha256: string | undefined): Promise<StoredDocument> {
+  const key = storageKey(uri, sha256);
+
+  let pending = inFlight.get(key);
+  if (!pending) {
+    pending = (async () => {
+      const stored = await getStoredItem<StoredDocument>(key);
+      if (stored && (isImmutable(uri, sha256) || Date.now() - stored.fetchedAt < MUTABLE_CACHE_TTL_MS)) {
+        return stored;
+      }
+
+      const document = await withFetchSlot(() => fetchFromCandidates(uri, sha256));
+      await setStoredItem(key, document);
+      return document;
+    })();
+    inFlight.set(key, pending);
+    pending.then(
+      () => inFlight.delete(key),
+      () => inFlight.delete(key)
+    );
+  }
+  return pending;
+}
+
+/**
+ * URI of the off-chain document that decoded on-chain metadata references,
+ * if any
+ */
+export function getOffChainUri(decoded: DecodedMetadata): string | undefined {
+  return findReference(decoded)?.uri;
+}
+
+/**
+ * If decoded on-chain metadata references an off-chain document, fetch it
+ * (through the gateways for ipfs:// and ar://), verify its SHA-256 when a
+ * hash is given, and merge it with the on-chain fields. On-chain fields win
+ * over off-chain ones. Failures are reported as warnings and leave the
+ * on-chain metadata as it is.
+ */
+export async function resolveOffChainMetadata(decoded: DecodedMetadata): Promise<DecodedMetadata> {
+  const reference = findReference(decoded);
+  if (!reference) return decoded;
+
+  const { uri, sha256, invalidHash, inline } = reference;
+  const warnings = [...decoded.warnings];
+
+  // Loading unverified content when the issuer asked for verification would defeat the point
+  if (invalidHash !== undefined) {
+    warnings.push(`Ignoring off-chain metadata at ${uri}: the content hash ${invalidHash} is not a SHA-256 digest`);
+    return { ...decoded, warnings };
+  }
+
+  try {
+    const document = await loadDocument(uri, sha256);
+    const offChain = decodeMetadata(hexToBytes(document.hex));
+    warnings.push(...offChain.warnings.map(warning => `Off-chain metadata: ${warning}`));
+
+    const offChainFields = metadataFields(offChain);
+    if (Object.keys(offChainFields).length === 0) {
+      warnings.push(`Off-chain metadata at ${uri} is ${offChain.format}, expected a JSON object`);
+      return { ...decoded, warnings };
+    }
+
+    return {
+      format: offChain.format,
+      encoding: decoded.encoding,
+      value: { ...offChainFields, ...inline },
+      warnings,
+      offChain: { uri, url: document.url, verified: sha256 !== undefined },
+    };
+  } catch (error) {
+    console.warn(`Failed to load off-chain metadata from ${uri}:`, error);
+    warnings.push(`Could not load off-chain metadata from ${uri}: ${(error as Error).message}`);
+    return { ...decoded, warnings };
+  }
+}
@@ -0,0 +1,239 @@
+import { addAddressPadding } from 'starknet';
+import { NetworkId } from '../config/networks';
+
+/**
+ * Identifies a contract read: network, contract address, method and
+ * stringified arguments
+ */
+export type QueryKey = readonly [network: NetworkId, contract: string, method: string, ...args: string[]];
+
+export interface QueryOptions {
+  /** How long data is considered fresh, in milliseconds */
+  staleTime?: number;
+  /** How long unused data is kept after the last subscriber leaves, in milliseconds */
+  cacheTime?: number;
+}
+
+export interface QueryState<T> {
+  data: T | undefined;
+  error: unknown;
+  updatedAt: number;
+  isFetching: boolean;
+  isInvalidated: boolean;
+}
+
+export interface QueryFilter {
+  network?: NetworkId;
+  contract?: string;
+  method?: string;
+}
+
+interface QueryEntry<T> {
+  key: QueryKey;
+  state: QueryState<T>;
+  options: Required<QueryOptions>;
+  fetcher?: () => Promise<T>;
+  promise?: Promise<T>;
+  listeners: Set<() => void>;
+  gcTimer?: ReturnType<typeof setTimeout>;
+}
+
+const DEFAULT_OPTIONS: Required<QueryOptions> = {
+  staleTime: 30_000,
+  cacheTime: 5 * 60_000,
+};
+
+const INITIAL_STATE: QueryState<never> = {
+  data: undefined,
+  error: undefined,
+  updatedAt: 0,
+  isFetching: false,
+  isInvalidated: false,
+};
+
+function normalizeContract(contract: string): string {
+  try {
+    return addAddressPadding(contract).toLowerCase();
+  } catch {
+    return contract.toLowerCase();
+  }
+}
+
+function normalizeKey(key: QueryKey): QueryKey {
+  const [network, contract, method, ...args] = key;
+  return [network, normalizeContract(contract), method, ...args];
+}
+
+/**
+ * String identifying a key; keys that differ only in address formatting
+ * hash the same
+ */
+export function hashKey(key: QueryKey): string {
+  return JSON.stringify(normalizeKey(key));
+}
+
+/**
+ * Shared cache for contract reads with in-flight deduplication, TTLs,
+ * stale-while-revalidate and manual invalidation
+ */
+class QueryCache {
+  private entries = new Map<string, QueryEntry<unknown>>();
+
+  private getEntry<T>(key: QueryKey): QueryEntry<T> {
+    const hash = hashKey(key);
+    let entry = this.entries.get(hash) as QueryEntry<T> | undefined;
+    if (!entry) {
+      entry = {
+        key: normalizeKey(key),
+        state: INITIAL_STATE,
+        options: DEFAULT_OPTIONS,
+        listeners: new Set(),
+      };
+      this.entries.set(hash, entry as QueryEntry<unknown>);
+      this.scheduleGc(hash, entry);
+    }
+    return entry;
+  }
+
+  private setState<T>(entry: QueryEntry<T>, update: Partial<QueryState<T>>) {
+    entry.state = { ...entry.state, ...update };
+    entry.listeners.forEach(listener => listener());
+  }
+
+  private scheduleGc<T>(hash: string, entry: QueryEntry<T>) {
+    clearTimeout(entry.gcTimer);
+    if (entry.listeners.size > 0) return;
+    entry.gcTimer = setTimeout(() => {
+      if (entry.listeners.size === 0 && !entry.promise) {
+        this.entries.delete(hash);
+      }
+    }, entry.options.cacheTime);
+  }
+
+  getState<T>(key: QueryKey): QueryState<T> {
+    const entry = this.entries.get(hashKey(key)) as QueryEntry<T> | undefined;
+    return entry ? entry.state : INITIAL_STATE;
+  }
+
+  isStale(key: QueryKey): boolean {
+    const entry = this.entries.get(hashKey(key));
+    if (!entry || entry.state.updatedAt === 0 || entry.state.isInvalidated) return true;
+    return Date.now() - entry.state.updatedAt > entry.options.staleTime;
+  }
+
+  subscribe(key: QueryKey, listener: () => void): () => void {
+    const hash = hashKey(key);
+    const entry = this.getEntry(key);
+    clearTimeout(entry.gcTimer);
+    entry.listeners.add(listener);
+    return () => {
+      entry.listeners.delete(listener);
+      this.scheduleGc(hash, entry);
+    };
+  }
+
+  /**
+   * Contracts of a network with at least one query on screen
+   */
+  getActiveContracts(network: NetworkId): string[] {
+    const contracts = new Set<string>();
+    this.entries.forEach(entry => {
+      if (entry.key[0] === network && entry.listeners.size > 0) contracts.add(entry.key[1]);
+    });
+    return [...contracts];
+  }
+
+  /**
+   * Resolve a query, reusing fresh cached data and sharing any request that
+   * is already in flight for the same key
+   */
+  fetch<T>(key: QueryKey, fetcher: () => Promise<T>, options: QueryOptions = {}): Promise<T> {
+    const entry = this.getEntry<T>(key);
+    entry.fetcher = fetcher;
+    entry.options = { ...DEFAULT_OPTIONS, ...options };
+
+    if (entry.promise) return entry.promise;
+    if (!this.isStale(key) && entry.state.data !== undefined) {
+      return Promise.resolve(entry.state.data);
+    }
+    return this.run(entry);
+  }
+
+  /**
+   * Fetch a query again regardless of freshness, still sharing a request
+   * that is already in flight
+   */
+  refetch<T>(key: QueryKey, fetcher: () => Promise<T>, options: QueryOptions = {}): Promise<T> {
+    const entry = this.getEntry<T>(key);
+    entry.fetcher = fetcher;
+    entry.options = { ...DEFAULT_OPTIONS, ...options };
+    return entry.promise ?? this.run(entry);
+  }
+
+  private run<T>(entry: QueryEntry<T>): Promise<T> {
+    const fetcher = entry.fetcher;
+    if (!fetcher) return Promise.reject(new Error('Query has no fetcher'));
+
+    const promise = fetcher().then(
+      data => {
+        entry.promise = undefined;
+        this.setState(entry, {
+          data,
+          error: undefined,
+          updatedAt: Date.now(),
+          isFetching: false,
+          isInvalidated: false,
+        });
+        return data;
+      },
+      error => {
+        entry.promise = undefined;
+        // Keep the last good data so the UI can keep showing it
+        this.setState(entry, { error, isFetching: false });
+        throw error;
+      }
+    );
+    entry.promise = promise;
+    // Without data to show, a retry should look like a fresh load
+    this.setState(entry, entry.state.data === undefined
+      ? { isFetching: true, error: undefined }
+      : { isFetching: true });
+    return promise;
+  }
+
+  /**
+   * Seed the cache with data obtained from another read
+   */
+  setQueryData<T>(key: QueryKey, data: T) {
+    const entry = this.getEntry<T>(key);
+    this.setState(entry, {
+      data,
+      error: undefined,
+      updatedAt: Date.now(),
+      isInvalidated: false,
+    });
+  }
+
+  /**
+   * Mark matching queries stale. Queries that are currently displayed are
+   * refetched immediately; the rest refetch on next use.
+   */
+  invalidateQueries(filter: QueryFilter = {}) {
+    const contract = filter.contract && normalizeContract(filter.contract);
+    this.entries.forEach(entry => {
+      const [network, entryContract, method] = entry.key;
+      if (filter.network && filter.network !== network) return;
+      if (contract && contract !== entryContract) return;
+      if (filter.method && filter.method !== method) return;
+
+      this.setState(entry, { isInvalidated: true });
+      if (entry.listeners.size > 0 && !entry.promise) {
+        this.run(entry).catch(() => {
+          // Error is stored in the entry state
+        });
+      }
+    });
+  }
+}
+
+export const queryCache = new QueryCache();
@@ -0,0 +1,123 @@
+type Fetch = (input: RequestInfo | URL, init?: RequestInit) => Promise<Response>;
+
+interface JsonRpcRequest {
+  jsonrpc: '2.0';
+  id: string | number;
+  method: string;
+  params?: unknown;
+}
+
+interface QueuedRequest {
+  request: JsonRpcRequest;
+  input: RequestInfo | URL;
+  init: RequestInit;
+  resolve: (response: Response) => void;
+  reject: (error: unknown) => void;
+}
+
+/** Requests per batch; larger queues are split */
+export const MAX_BATCH_SIZE = 50;
+
+// Transactions are sent on their own so a batch never mixes writes and reads
+const UNBATCHED_METHOD_PREFIX = 'starknet_add';
+
+function parseRequest(body: RequestInit['body']): JsonRpcRequest | null {
+  if (typeof body !== 'string') return null;
+  try {
+    const parsed = JSON.parse(body);
+    return parsed && !Array.isArray(parsed) && typeof parsed.method === 'string' ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+function jsonResponse(body: unknown): Response {
+  return new Response(JSON.stringify(body), {
+    status: 200,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+/**
+ * Wrap a fetch function so that JSON-RPC requests made in the same tick are
+ * sent as one batch. Each caller still gets its own response. Endpoints that
+ * answer a batch successfully but not with an array get the requests one by
+ * one from then on.
+ */
+export function createBatchingFetch(send: Fetch): Fetch {
+  let queue: QueuedRequest[] = [];
+  let flushTimer: ReturnType<typeof setTimeout> | undefined;
+  let batchesSupported = true;
+
+  const sendOne = ({ input, init, resolve, reject }: QueuedRequest) => {
+    send(input, init).then(resolve, reject);
+  };
+
+  const sendBatch = async (batch: QueuedRequest[]) => {
+    // Ids are only unique per provider, so number the requests within the batch
+    const body = batch.map(({ request }, index) => ({ ...request, id: index }));
+
+    let results: unknown;
+    try {
+      const response = await send(batch[0].input, {
+        ...batch[0].init,
+        body: JSON.stringify(body),
+      });
+      // An HTTP error says nothing about batch support; each request then
+      // takes the regular path, where failover and retries apply
+      if (!response.ok) {
+        batch.forEach(sendOne);
+        return;
+      }
+      results = await response.json();
+    } catch (error) {
+      batch.forEach(({ reject }) => reject(error));
+      return;
+    }
+
+    if (!Array.isArray(results)) {
+      console.warn('RPC endpoint does not support batch requests, sending requests individually');
+      batchesSupported = false;
+      batch.forEach(sendOne);
+      return;
+    }
+
+    const byId = new Map(results.map(result => [result?.id, result]));
+    batch.forEach((queued, index) => {
+      const result = byId.get(index);
+      if (result) {
+        queued.resolve(jsonResponse({ ...result, id: queued.request.id }));
+      } else {
+        sendOne(queued);
+      }
+    });
+  };
+
+  const flush = () => {
+    flushTimer = undefined;
+    const pending = queue;
+    queue = [];
+
+    for (let start = 0; start < pending.length; start += MAX_BATCH_SIZE) {
+      const batch = pending.slice(start, start + MAX_BATCH_SIZE);
+      if (batch.length === 1) {
+        sendOne(batch[0]);
+      } else {
+        sendBatch(batch);
+      }
+    }
+  };
+
+  return (input, init = {}) => {
+    const request = parseRequest(init.body);
+    if (!request || !batchesSupported || request.method.startsWith(UNBATCHED_METHOD_PREFIX)) {
+      return send(input, init);
+    }
+
+    return new Promise((resolve, reject) => {
+      queue.push({ request, input, init, resolve, reject });
+      // A zero timeout lets every read started in this tick join the batch
+      flushTimer ??= setTimeout(flush, 0);
+    });
+  };
+}
@@ -0,0 +1,277 @@
+import { NetworkConfig, NetworkId, getNetwork } from '../config/networks';
+
+export type EndpointStatus = 'unknown' | 'healthy' | 'degraded' | 'down';
+
+export interface EndpointHealth {
+  url: string;
+  status: EndpointStatus;
+  /** Moving average of response times; null until the endpoint has answered */
+  latencyMs: number | null;
+  /** Moving average of failures over recent requests, from 0 to 1 */
+  errorRate: number;
+  requests: number;
+  failures: number;
+  lastError?: string;
+  /** Milliseconds since epoch of the last request or health check */
+  lastCheckedAt: number;
+}
+
+interface EndpointState extends EndpointHealth {
+  index: number;
+  consecutiveFailures: number;
+  /** Skipped until this time after repeated failures */
+  cooldownUntil: number;
+  /** Set by health checks; such endpoints get no traffic at all */
+  wrongChain: boolean;
+}
+
+const REQUEST_TIMEOUT_MS = 15_000;
+const HEALTH_CHECK_INTERVAL_MS = 30_000;
+
+// Weight of the newest sample in the latency and error rate averages
+const SMOOTHING = 0.2;
+
+// Endpoints sit out after this many failures in a row, for a cooldown that
+// doubles with every further failure
+const FAILURES_BEFORE_COOLDOWN = 3;
+const BASE_COOLDOWN_MS = 15_000;
+const MAX_COOLDOWN_MS = 5 * 60_000;
+
+const DEGRADED_LATENCY_MS = 2_000;
+const DEGRADED_ERROR_RATE = 0.25;
+
+/**
+ * Message of the error thrown when every endpoint failed; `contractService`
+ * recognizes it as a network failure
+ */
+export const ALL_ENDPOINTS_FAILED = 'All RPC endpoints failed';
+
+function describeFailure(error: unknown): string {
+  if (error instanceof Error) return error.name === 'AbortError' ? 'Timed out' : error.message;
+  return String(error);
+}
+
+function average(previous: number | null, sample: number): number {
+  return previous === null ? sample : previous + SMOOTHING * (sample - previous);
+}
+
+/**
+ * The RPC endpoints of one network. Requests go to the fastest endpoint that
+ * is not failing and fail over to the next one on network errors, timeouts,
+ * rate limiting and 5xx responses. Latency and error rates are tracked per
+ * endpoint from regular traffic and from periodic health checks.
+ */
+class RpcPool {
+  private endpoints: EndpointState[];
+  private snapshot: EndpointHealth[] = [];
+  private listeners = new Set<() => void>();
+  private healthTimer?: ReturnType<typeof setInterval>;
+
+  constructor(private readonly network: NetworkConfig) {
+    this.endpoints = network.rpcUrls.map((url, index) => ({
+      url,
+      index,
+      status: 'unknown',
+      latencyMs: null,
+      errorRate: 0,
+      requests: 0,
+      failures: 0,
+      lastCheckedAt: 0,
+      consecutiveFailures: 0,
+      cooldownUntil: 0,
+      wrongChain: false,
+    }));
+    this.updateSnapshot();
+  }
+
+  /** URL handed to starknet.js; the pool decides where requests actually go */
+  get primaryUrl(): string {
+    return this.network.rpcUrls[0];
+  }
+
+  /**
+   * Drop-in for `fetch`, used as the provider's `baseFetch`. The URL argument
+   * is ignored in favour of the pool's endpoints.
+   */
+  fetch = async (_input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+    const failures: string[] = [];
+
+    for (const endpoint of this.rankEndpoints()) {
+      const started = performance.now();
+      const controller = new AbortController();
+      const timeout = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+      try {
+        const response = await fetch(endpoint.url, { ...init, signal: controller.signal });
+        // Rate limiting and server errors say nothing about the request, so another node may serve it
+        if (response.status === 429 || response.status >= 500) {
+          throw new Error(`HTTP ${response.status}`);
+        }
+        // Read the body before the timeout is cleared, so a stalled body also fails over
+        const body = await response.text();
+        this.recordSuccess(endpoint, performance.now() - started);
+        return new Response(body, {
+          status: response.status,
+          statusText: response.statusText,
+          headers: response.headers,
+        });
+      } catch (error) {
+        this.recordFailure(endpoint, error);
+        failures.push(`${endpoint.url}: ${describeFailure(error)}`);
+      } finally {
+        clearTimeout(timeout);
+      }
+    }
+
+    throw new Error(`${ALL_ENDPOINTS_FAILED} (${failures.join('; ')})`);
+  };
+
+  /**
+   * Ask every endpoint for its chain id, recording latency and flagging
+   * endpoints that are unreachable or serve a different chain
+   */
+  async checkHealth(): Promise<void> {
+    await Promise.all(this.endpoints.map(async endpoint => {
+      const started = performance.now();
+      const controller = new AbortController();
+      const timeout = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+      try {
+        const response = await fetch(endpoint.url, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ jsonrpc: '2.0', id: 0, method: 'starknet_chainId' }),
+          signal: controller.signal,
+        });
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        const { result, error } = await response.json();
+        if (error) throw new Error(error.message ?? 'RPC error');
+        endpoint.wrongChain = typeof result !== 'string' || BigInt(result) !== BigInt(this.network.chainId);
+        if (endpoint.wrongChain) {
+          throw new Error(`Serves chain ${result}, expected ${this.network.chainId}`);
+        }
+        this.recordSuccess(endpoint, performance.now() - started);
+      } catch (error) {
+        this.recordFailure(endpoint, error);
+      } finally {
+        clearTimeout(timeout);
+      }
+    }));
+  }
+
+  /**
+   * Subscribe to health changes. Health checks run while anyone is subscribed.
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    if (!this.healthTimer) {
+      this.checkHealth();
+      this.healthTimer = setInterval(() => this.checkHealth(), HEALTH_CHECK_INTERVAL_MS);
+    }
+    return () => {
+      this.listeners.delete(listener);
+      if (this.listeners.size === 0) {
+        clearInterval(this.healthTimer);
+        this.healthTimer = undefined;
+      }
+    };
+  }
+
+  getHealth(): EndpointHealth[] {
+    return this.snapshot;
+  }
+
+  // Endpoints that are not cooling down come first, fastest first; endpoints
+  // without measurements yet keep their configured order after measured ones
+  private rankEndpoints(): EndpointState[] {
+    const now = Date.now();
+    const score = (endpoint: EndpointState) =>
+      endpoint.latencyMs === null ? Infinity : endpoint.latencyMs * (1 + 4 * endpoint.errorRate);
+
+    return this.endpoints.filter(endpoint => !endpoint.wrongChain).sort((a, b) => {
+      const coolingA = a.cooldownUntil > now;
+      const coolingB = b.cooldownUntil > now;
+      if (coolingA !== coolingB) return coolingA ? 1 : -1;
+      const scoreA = score(a);
+      const scoreB = score(b);
+      if (scoreA !== scoreB) return scoreA < scoreB ? -1 : 1;
+      return a.index - b.index;
+    });
+  }
+
+  private recordSuccess(endpoint: EndpointState, latencyMs: number) {
+    endpoint.requests++;
+    endpoint.latencyMs = average(endpoint.latencyMs, latencyMs);
+    endpoint.errorRate = average(endpoint.errorRate, 0);
+    endpoint.consecutiveFailures = 0;
+    endpoint.cooldownUntil = 0;
+    endpoint.lastCheckedAt = Date.now();
+    this.updateSnapshot();
+  }
+
+  private recordFailure(endpoint: EndpointState, error: unknown) {
+    endpoint.requests++;
+    endpoint.failures++;
+    endpoint.errorRate = average(endpoint.errorRate, 1);
+    endpoint.consecutiveFailures++;
+    endpoint.lastError = describeFailure(error);
+    endpoint.lastCheckedAt = Date.now();
+    if (endpoint.consecutiveFailures >= FAILURES_BEFORE_COOLDOWN) {
+      const cooldown = BASE_COOLDOWN_MS * 2 ** (endpoint.consecutiveFailures - FAILURES_BEFORE_COOLDOWN);
+      endpoint.cooldownUntil = Date.now() + Math.min(cooldown, MAX_COOLDOWN_MS);
+    }
+    this.updateSnapshot();
+  }
+
+  private statusOf(endpoint: EndpointState): EndpointStatus {
+    if (endpoint.requests === 0) return 'unknown';
+    if (endpoint.wrongChain || endpoint.consecutiveFailures >= FAILURES_BEFORE_COOLDOWN) return 'down';
+    if (
+      endpoint.consecutiveFailures > 0 ||
+      endpoint.errorRate > DEGRADED_ERROR_RATE ||
+      (endpoint.latencyMs ?? 0) > DEGRADED_LATENCY_MS
+    ) {
+      return 'degraded';
+    }
+    return 'healthy';
+  }
+
+  // useSyncExternalStore needs a new array only when something changed
+  private updateSnapshot() {
+    this.snapshot = this.endpoints.map(endpoint => ({
+      url: endpoint.url,
+      status: this.statusOf(endpoint),
+      latencyMs: endpoint.latencyMs,
+      errorRate: endpoint.errorRate,
+      requests: endpoint.requests,
+      failures: endpoint.failures,
+      lastError: endpoint.lastError,
+      lastCheckedAt: endpoint.lastCheckedAt,
+    }));
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+const pools = new Map<NetworkId, RpcPool>();
+
+/**
+ * Get the endpoint pool for a network, creating it on first use
+ */
+export function getRpcPool(networkId: NetworkId): RpcPool {
+  let pool = pools.get(networkId);
+  if (!pool) {
+    pool = new RpcPool(getNetwork(networkId));
+    pools.set(networkId, pool);
+  }
+  return pool;
+}
+
+/**
+ * Overall health of a network's endpoints: healthy if every endpoint is,
+ * down if none is usable, degraded otherwise
+ */
+export function summarizeHealth(endpoints: EndpointHealth[]): EndpointStatus {
+  const known = endpoints.filter(endpoint => endpoint.status !== 'unknown');
+  if (known.length === 0) return 'unknown';
+  if (known.every(endpoint => endpoint.status === 'down')) return 'down';
+  if (known.every(endpoint => endpoint.status === 'healthy')) return 'healthy';
+  return 'degraded';
+}
@@ -0,0 +1,62 @@
+import { AccountInterface, Call } from 'starknet';
+import { NetworkId } from '../config/networks';
+import { collectibleContractAbi, pointsContractAbi } from '../contracts/abi';
+import { getBundledContract, getProvider } from './contractService';
+
+export interface PurchaseParams {
+  collectibleContract: string;
+  pointsContract: string;
+  user: string;
+  tokenId: string;
+  amount: bigint;
+  /** Price of one collectible in raw points units */
+  unitPrice: bigint;
+}
+
+export type TransactionOutcome =
+  | { status: 'accepted'; hash: string }
+  | { status: 'reverted'; hash: string; reason?: string };
+
+/**
+ * Total points cost of a purchase
+ */
+export function getPurchaseCost({ amount, unitPrice }: Pick<PurchaseParams, 'amount' | 'unitPrice'>): bigint {
+  return amount * unitPrice;
+}
+
+/**
+ * Build the multicall that lets the collectible contract take the points
+ * and then purchases the collectible, so both happen atomically
+ */
+export function buildPurchaseCalls(params: PurchaseParams, networkId: NetworkId): Call[] {
+  const points = getBundledContract(pointsContractAbi, params.pointsContract, networkId);
+  const collectible = getBundledContract(collectibleContractAbi, params.collectibleContract, networkId);
+
+  return [
+    points.populate('approve', [params.collectibleContract, getPurchaseCost(params)]),
+    collectible.populate('purchase', [params.user, params.tokenId, params.amount]),
+  ];
+}
+
+/**
+ * Send calls through the connected account. Resolves with the transaction
+ * hash once the wallet has signed and submitted it.
+ */
+export async function submitCalls(account: AccountInterface, calls: Call[]): Promise<string> {
+  const { transaction_hash } = await account.execute(calls);
+  return transaction_hash;
+}
+
+/**
+ * Wait until a transaction is accepted on L2 (or reverted)
+ */
+export async function waitForAcceptance(hash: string, networkId: NetworkId): Promise<TransactionOutcome> {
+  const receipt = await getProvider(networkId).waitForTransaction(hash);
+  if (receipt.isReverted()) {
+    return { status: 'reverted', hash, reason: receipt.revert_reason };
+  }
+  if (!receipt.isSuccess()) {
+    return { status: 'reverted', hash, reason: 'Transaction was rejected' };
+  }
+  return { status: 'accepted', hash };
+}
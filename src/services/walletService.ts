@@ -0,0 +1,142 @@
+import { Account, AccountInterface, WalletAccount } from 'starknet';
+import { getStarknet, StarknetWindowObject } from 'get-starknet-core';
+import { NetworkId, getNetwork } from '../config/networks';
+import { getProvider } from './contractService';
+
+/**
+ * Something that can produce a connected account for a network. Injected
+ * browser wallets and the devnet test signer both implement it, so the rest
+ * of the app does not care where signatures come from.
+ */
+export interface WalletConnector {
+  id: string;
+  name: string;
+  icon?: string;
+  connect(networkId: NetworkId, options?: { silent?: boolean }): Promise<AccountInterface>;
+  disconnect(): Promise<void>;
+  /** Whether the connector can serve a network; assumed true when missing */
+  supportsNetwork?(networkId: NetworkId): boolean;
+  /** Register a callback for when the user switches account inside the wallet */
+  onAccountChange?(callback: () => void): () => void;
+  /**
+   * Chain the wallet currently signs for. Missing for connectors that are
+   * bound to the network they were connected for.
+   */
+  getChainId?(): Promise<string>;
+  /** Ask the wallet to switch to a network's chain; the user may refuse */
+  switchChain?(networkId: NetworkId): Promise<void>;
+  /** Register a callback for when the user switches chain inside the wallet */
+  onNetworkChange?(callback: () => void): () => void;
+}
+
+/**
+ * Whether two chain ids name the same chain, whatever their hex formatting
+ */
+export function isSameChain(a: string, b: string): boolean {
+  try {
+    return BigInt(a) === BigInt(b);
+  } catch {
+    return a === b;
+  }
+}
+
+// Preferred display order for the wallets we officially support
+const WALLET_ORDER = ['argentX', 'braavos'];
+
+const starknet = getStarknet();
+
+function getWalletIcon(wallet: StarknetWindowObject): string | undefined {
+  return typeof wallet.icon === 'string' ? wallet.icon : wallet.icon?.light;
+}
+
+function createInjectedConnector(wallet: StarknetWindowObject): WalletConnector {
+  return {
+    id: wallet.id,
+    name: wallet.name,
+    icon: getWalletIcon(wallet),
+    async connect(networkId, options = {}) {
+      const provider = getProvider(networkId);
+      const account = options.silent
+        ? await WalletAccount.connectSilent(provider, wallet)
+        : await WalletAccount.connect(provider, wallet);
+
+      if (!options.silent) {
+        try {
+          await account.switchStarknetChain(getNetwork(networkId).chainId);
+        } catch (error) {
+          // Not every wallet supports switching chains; reads still go through our provider
+          console.warn('Wallet did not switch chain:', error);
+        }
+      }
+      return account;
+    },
+    async getChainId() {
+      return wallet.request({ type: 'wallet_requestChainId' });
+    },
+    async switchChain(networkId) {
+      await wallet.request({
+        type: 'wallet_switchStarknetChain',
+        params: { chainId: getNetwork(networkId).chainId },
+      });
+    },
+    async disconnect() {
+      await starknet.disconnect({ clearLastWallet: true });
+    },
+    onAccountChange(callback) {
+      const handler = () => callback();
+      wallet.on('accountsChanged', handler);
+      return () => wallet.off('accountsChanged', handler);
+    },
+    onNetworkChange(callback) {
+      const handler = () => callback();
+      wallet.on('networkChanged', handler);
+      return () => wallet.off('networkChanged', handler);
+    },
+  };
+}
+
+/**
+ * Injected wallets (Argent X, Braavos, ...) discovered through get-starknet
+ */
+export async function getInjectedConnectors(): Promise<WalletConnector[]> {
+  const wallets = await starknet.getAvailableWallets();
+  return wallets
+    .sort((a, b) => {
+      const rank = (id: string) => (WALLET_ORDER.includes(id) ? WALLET_ORDER.indexOf(id) : WALLET_ORDER.length);
+      return rank(a.id) - rank(b.id);
+    })
+    .map(createInjectedConnector);
+}
+
+/**
+ * The injected wallet used in the previous session, if the user has not
+ * revoked its permission
+ */
+export async function getLastConnectedConnector(): Promise<WalletConnector | null> {
+  const wallet = await starknet.getLastConnectedWallet();
+  return wallet ? createInjectedConnector(wallet) : null;
+}
+
+/**
+ * Local signer backed by one of starknet-devnet's predeployed accounts, for
+ * testing without a browser wallet. Only available when both the address and
+ * private key are configured.
+ */
+export function getDevnetConnector(): WalletConnector | null {
+  const address = import.meta.env.VITE_DEVNET_ACCOUNT_ADDRESS;
+  const privateKey = import.meta.env.VITE_DEVNET_ACCOUNT_PRIVATE_KEY;
+  if (!address || !privateKey) return null;
+
+  return {
+    id: 'devnet',
+    name: 'Devnet test account',
+    supportsNetwork: networkId => networkId === 'devnet',
+    async connect(networkId) {
+      if (networkId !== 'devnet') {
+        throw new Error('The devnet test account can only be used on the devnet network');
+      }
+      return new Account(getProvider(networkId), address, privateKey);
+    },
+    async disconnect() {},
+  };
+}
@@ -0,0 +1,41 @@
+import { addAddressPadding } from 'starknet';
+
+/**
+ * Normalize an address to its lowercase, zero-padded hex form so it can be
+ * compared and used as a key
+ */
+export function normalizeAddress(address: string): string {
+  return addAddressPadding(address).toLowerCase();
+}
+
+export function addressesEqual(a: string, b: string): boolean {
+  try {
+    return normalizeAddress(a) === normalizeAddress(b);
+  } catch {
+    return a.toLowerCase() === b.toLowerCase();
+  }
+}
+
+// Contract addresses are felts below 2^251
+const ADDRESS_BOUND = 2n ** 251n;
+
+export type AddressParseResult =
+  | { address: string; error?: undefined }
+  | { address?: undefined; error: string };
+
+/**
+ * Validate user input as a Starknet address and return it normalized.
+ * Accepts hex with or without the 0x prefix and ignores surrounding whitespace.
+ */
+export function parseAddress(input: string): AddressParseResult {
+  const hex = input.trim().replace(/^0x/i, '');
+  if (!hex) return { error: 'Enter a contract address' };
+  if (!/^[0-9a-fA-F]+$/.test(hex)) return { error: 'Addresses may only contain hex digits (0-9, a-f)' };
+  if (hex.length > 64) return { error: 'Address is longer than 64 hex digits' };
+
+  const value = BigInt(`0x${hex}`);
+  if (value === 0n) return { error: 'The zero address is not a contract' };
+  if (value >= ADDRESS_BOUND) return { error: 'Address is outside the Starknet address range' };
+
+  return { address: normalizeAddress(`0x${hex}`) };
+}
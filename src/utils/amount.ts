@@ -0,0 +1,86 @@
+/**
+ * A token amount in raw on-chain units together with the number of decimals
+ * needed to display it. Raw values are kept as bigint so u256 values never
+ * lose precision.
+ */
+export interface Amount {
+  raw: bigint;
+  decimals: number;
+}
+
+export interface FormatAmountOptions {
+  /** Locale used for digit grouping and the decimal separator; defaults to the browser locale */
+  locale?: string;
+  /** Use compact notation (1.2K, 3.4M); precision is reduced for display only */
+  compact?: boolean;
+  /** Maximum number of fraction digits to show; extra digits are truncated */
+  maximumFractionDigits?: number;
+}
+
+export function toAmount(raw: bigint | string | number, decimals: number = 0): Amount {
+  return { raw: BigInt(raw), decimals };
+}
+
+function splitAmount({ raw, decimals }: Amount): { negative: boolean; whole: bigint; fraction: string } {
+  const negative = raw < 0n;
+  const absolute = negative ? -raw : raw;
+  if (decimals <= 0) return { negative, whole: absolute, fraction: '' };
+
+  const base = 10n ** BigInt(decimals);
+  const fraction = (absolute % base).toString().padStart(decimals, '0').replace(/0+$/, '');
+  return { negative, whole: absolute / base, fraction };
+}
+
+/**
+ * Exact decimal representation without grouping, suitable for copying
+ * (e.g. "1234.5")
+ */
+export function amountToExactString(amount: Amount): string {
+  const { negative, whole, fraction } = splitAmount(amount);
+  return `${negative ? '-' : ''}${whole.toString()}${fraction ? `.${fraction}` : ''}`;
+}
+
+function getDecimalSeparator(locale?: string): string {
+  return new Intl.NumberFormat(locale).formatToParts(1.1).find(part => part.type === 'decimal')?.value ?? '.';
+}
+
+/**
+ * Format an amount for display with locale-aware grouping
+ */
+export function formatAmount(amount: Amount, options: FormatAmountOptions = {}): string {
+  const { locale, compact = false, maximumFractionDigits = 4 } = options;
+
+  if (compact) {
+    // Compact output is approximate by nature, so going through Number is fine here
+    const approximate = Number(amountToExactString(amount));
+    return new Intl.NumberFormat(locale, { notation: 'compact', maximumFractionDigits: 2 }).format(approximate);
+  }
+
+  const { negative, whole, fraction } = splitAmount(amount);
+  const separator = getDecimalSeparator(locale);
+  const shownFraction = fraction.slice(0, maximumFractionDigits).replace(/0+$/, '');
+
+  // Say a tiny amount is tiny instead of rounding it down to zero
+  if (whole === 0n && fraction && !shownFraction) {
+    const smallest = maximumFractionDigits > 0 ? `0${separator}${'0'.repeat(maximumFractionDigits - 1)}1` : '1';
+    return `${negative ? '>-' : '<'}${smallest}`;
+  }
+
+  const grouped = new Intl.NumberFormat(locale, { useGrouping: true }).format(whole);
+  return `${negative ? '-' : ''}${grouped}${shownFraction ? separator + shownFraction : ''}`;
+}
+
+/**
+ * Parse a user-entered decimal string (e.g. "12.5") into raw units. Returns
+ * null for anything that is not a plain non-negative number; digits beyond
+ * `decimals` are truncated.
+ */
+export function parseAmount(value: string, decimals: number = 0): bigint | null {
+  const match = /^(\d*)(?:\.(\d*))?$/.exec(value.trim());
+  if (!match || (!match[1] && !match[2])) return null;
+
+  const whole = BigInt(match[1] || '0');
+  if (decimals <= 0) return whole;
+  const fraction = (match[2] || '').slice(0, decimals).padEnd(decimals, '0');
+  return whole * 10n ** BigInt(decimals) + BigInt(fraction);
+}
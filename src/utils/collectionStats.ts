@@ -0,0 +1,56 @@
+import type { CollectionAnalytics, CollectionHistoryPoint } from '../services/collectionAnalytics';
+
+export interface CollectionSummary {
+  minted: bigint;
+  redeemed: bigint;
+  pointsSpent: bigint;
+  /** Addresses that redeemed any token */
+  uniqueRedeemers: number;
+}
+
+export interface HistoryBucket {
+  fromBlock: number;
+  toBlock: number;
+  minted: bigint;
+  redeemed: bigint;
+}
+
+export function summarizeCollection(analytics: CollectionAnalytics): CollectionSummary {
+  const redeemers = new Set<string>();
+  let minted = 0n;
+  let redeemed = 0n;
+  let pointsSpent = 0n;
+  for (const token of analytics.tokens.values()) {
+    minted += token.minted;
+    redeemed += token.redeemed;
+    pointsSpent += token.pointsSpent;
+    token.redeemers.forEach(address => redeemers.add(address));
+  }
+  return { minted, redeemed, pointsSpent, uniqueRedeemers: redeemers.size };
+}
+
+/**
+ * Sum the history into `count` equal block ranges from `fromBlock` to
+ * `toBlock` inclusive, or fewer when there are not that many blocks
+ */
+export function bucketHistory(
+  history: readonly CollectionHistoryPoint[],
+  fromBlock: number,
+  toBlock: number,
+  count: number,
+): HistoryBucket[] {
+  if (toBlock < fromBlock) return [];
+
+  const size = Math.ceil((toBlock - fromBlock + 1) / count);
+  const buckets: HistoryBucket[] = [];
+  for (let start = fromBlock; start <= toBlock; start += size) {
+    buckets.push({ fromBlock: start, toBlock: Math.min(toBlock, start + size - 1), minted: 0n, redeemed: 0n });
+  }
+  for (const point of history) {
+    if (point.block < fromBlock || point.block > toBlock) continue;
+    const bucket = buckets[Math.floor((point.block - fromBlock) / size)];
+    bucket.minted += point.minted;
+    bucket.redeemed += point.redeemed;
+  }
+  return buckets;
+}
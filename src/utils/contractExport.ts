@@ -0,0 +1,146 @@
+import type { CollectionAnalytics, TokenAnalytics } from '../services/collectionAnalytics';
+import type { CollectibleDetails, PointsDetails } from '../services/contractService';
+import { amountToExactString, toAmount } from './amount';
+import { CsvValue, flattenRecord } from './exportData';
+import { getExpiryDate } from './expiry';
+import { shareOf } from './holderStats';
+import type { TokenListItem } from './tokenFilters';
+
+// Attributes without a trait type share one column
+const UNTYPED_COLUMN = 'attributes';
+
+function attributeColumn(traitType: string | undefined): string {
+  return traitType ? `attribute:${traitType}` : UNTYPED_COLUMN;
+}
+
+/**
+ * One flat CSV record per token as shown in the token table, with prices in
+ * display units (or a `price_raw` column while the decimals are unknown),
+ * one `attribute:<trait type>` column per trait and the attributes without
+ * a trait type joined in an `attributes` column
+ */
+export function tokenExportRecords(items: TokenListItem[], priceDecimals: number | undefined): Record<string, CsvValue>[] {
+  const columns = [...new Set(items.flatMap(({ metadata }) =>
+    metadata.attributes.map(attribute => attributeColumn(attribute.trait_type))
+  ))].sort((a, b) => a.localeCompare(b));
+
+  return items.map(({ tokenId, metadata, price, expiry, supply }) => {
+    const record: Record<string, CsvValue> = {
+      token_id: tokenId,
+      name: metadata.name ?? '',
+      ...priceDecimals === undefined
+        ? { price_raw: price }
+        : { price: amountToExactString(toAmount(price, priceDecimals)) },
+      expiry: getExpiryDate(expiry)?.toISOString() ?? '',
+      supply,
+    };
+    for (const column of columns) {
+      // A trait listed more than once keeps all its values
+      record[column] = metadata.attributes
+        .filter(attribute => attributeColumn(attribute.trait_type) === column)
+        .map(attribute => String(attribute.value))
+        .join('; ');
+    }
+    return record;
+  });
+}
+
+/**
+ * Tokens as shown in the token table with their values as read from the
+ * contract: raw price, expiry in Unix seconds (0 for none) and the full
+ * attributes list
+ */
+export function tokenExport(items: TokenListItem[]) {
+  return items.map(({ tokenId, metadata, price, expiry, supply }) => ({
+    token_id: tokenId,
+    name: metadata.name ?? null,
+    price,
+    expiry,
+    supply,
+    attributes: metadata.attributes,
+  }));
+}
+
+export interface TokenAnalyticsRow extends TokenAnalytics {
+  tokenId: string;
+  name: string;
+  /** Raw points units; undefined for tokens the contract no longer lists */
+  price?: bigint;
+}
+
+/**
+ * One CSV record per token of the collection analytics, with prices and
+ * points in display units
+ */
+export function analyticsExportRecords(rows: TokenAnalyticsRow[], pointsDecimals: number): Record<string, CsvValue>[] {
+  const points = (raw: bigint) => amountToExactString(toAmount(raw, pointsDecimals));
+  return rows.map(row => ({
+    token_id: row.tokenId,
+    name: row.name,
+    price: row.price === undefined ? undefined : points(row.price),
+    purchased: row.minted,
+    redeemed: row.redeemed,
+    redemption_rate: row.minted > 0n ? shareOf(row.redeemed, row.minted) : undefined,
+    unique_redeemers: row.redeemers.size,
+    points_spent: points(row.pointsSpent),
+  }));
+}
+
+/**
+ * Collection analytics with raw points amounts and the redeeming addresses
+ * of each token
+ */
+export function analyticsExport(address: string, analytics: CollectionAnalytics, rows: TokenAnalyticsRow[]) {
+  return {
+    address,
+    indexed_block: analytics.indexedBlock,
+    tokens: rows.map(row => ({
+      token_id: row.tokenId,
+      name: row.name,
+      price: row.price ?? null,
+      purchased: row.minted,
+      redeemed: row.redeemed,
+      points_spent: row.pointsSpent,
+      redeemers: [...row.redeemers],
+    })),
+  };
+}
+
+/**
+ * Collection-level fields and decoded metadata of a collectible contract
+ */
+export function collectionExport(address: string, details: CollectibleDetails) {
+  return {
+    address,
+    name: details.name,
+    points_contract: details.pointsContract,
+    token_count: details.tokenIds.length,
+    metadata_format: details.metadata.format,
+    metadata: details.metadata.value,
+  };
+}
+
+/**
+ * Details and decoded metadata of a points contract, with the total supply
+ * both in display units and raw units
+ */
+export function pointsExport(address: string, details: PointsDetails) {
+  return {
+    address,
+    name: details.name,
+    symbol: details.symbol,
+    decimals: details.decimals,
+    total_supply: amountToExactString(toAmount(details.totalSupply, details.decimals)),
+    total_supply_raw: details.totalSupply,
+    metadata_format: details.metadata.format,
+    metadata: details.metadata.value,
+  };
+}
+
+/**
+ * A nested export as `field,value` rows, with nested metadata under dotted
+ * field names
+ */
+export function fieldRecords(value: unknown): Record<string, CsvValue>[] {
+  return Object.entries(flattenRecord(value)).map(([field, fieldValue]) => ({ field, value: fieldValue }));
+}
@@ -0,0 +1,63 @@
+/** `expiry` value meaning the token never expires */
+export const NO_EXPIRY = 0;
+
+/** Tokens within this long of their expiry are flagged as expiring soon */
+export const EXPIRING_SOON_MS = 7 * 24 * 60 * 60 * 1000;
+
+export type ExpiryStatus = 'none' | 'active' | 'expiring-soon' | 'expired';
+
+export type TimeZoneMode = 'local' | 'utc';
+
+/**
+ * Expiry as a Date, or null for tokens that never expire. On-chain expiry
+ * is in Unix seconds.
+ */
+export function getExpiryDate(expiry: number): Date | null {
+  return expiry === NO_EXPIRY ? null : new Date(expiry * 1000);
+}
+
+export function getExpiryStatus(expiry: number, now: number = Date.now()): ExpiryStatus {
+  if (expiry === NO_EXPIRY) return 'none';
+  const remaining = expiry * 1000 - now;
+  if (remaining <= 0) return 'expired';
+  if (remaining <= EXPIRING_SOON_MS) return 'expiring-soon';
+  return 'active';
+}
+
+export function isExpired(expiry: number, now: number = Date.now()): boolean {
+  return getExpiryStatus(expiry, now) === 'expired';
+}
+
+/**
+ * Compact duration such as "3d 4h", "2h 05m" or "45s"
+ */
+export function formatCountdown(milliseconds: number): string {
+  const totalSeconds = Math.max(0, Math.floor(milliseconds / 1000));
+  const days = Math.floor(totalSeconds / 86400);
+  const hours = Math.floor((totalSeconds % 86400) / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${String(minutes).padStart(2, '0')}m`;
+  if (minutes > 0) return `${minutes}m ${String(seconds).padStart(2, '0')}s`;
+  return `${seconds}s`;
+}
+
+/**
+ * Date and time of an expiry in the viewer's time zone or in UTC, with the
+ * zone spelled out so the two are never confused
+ */
+export function formatExpiry(expiry: number, mode: TimeZoneMode = 'local', locale?: string): string {
+  const date = getExpiryDate(expiry);
+  if (!date) return 'Never expires';
+  return new Intl.DateTimeFormat(locale, {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    timeZoneName: 'short',
+    timeZone: mode === 'utc' ? 'UTC' : undefined,
+  }).format(date);
+}
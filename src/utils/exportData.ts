@@ -0,0 +1,88 @@
+import { jsonReplacer } from './metadataDecoder';
+
+export type ExportFormat = 'csv' | 'json';
+
+export type CsvValue = string | number | bigint | boolean | null | undefined;
+
+// Spreadsheets run text starting with these as formulas; contract metadata
+// is written by the issuer, so such text is prefixed to stay plain text
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+function csvField(value: CsvValue): string {
+  if (value === null || value === undefined) return '';
+  const text = typeof value === 'string' && FORMULA_START.test(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Format rows as RFC 4180 CSV with a header line
+ */
+export function toCsv(header: string[], rows: CsvValue[][]): string {
+  return [header, ...rows].map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+}
+
+/**
+ * CSV with a column per key used by any record, in order of first use
+ */
+export function recordsToCsv(records: Record<string, CsvValue>[]): string {
+  const header = [...new Set(records.flatMap(record => Object.keys(record)))];
+  return toCsv(header, records.map(record => header.map(key => record[key])));
+}
+
+/**
+ * Pretty-printed JSON with BigInts as decimal strings and byte arrays as hex
+ */
+export function toJson(value: unknown): string {
+  return JSON.stringify(value, jsonReplacer, 2) + '\n';
+}
+
+/**
+ * Flatten nested objects and arrays into one level with dotted keys, e.g.
+ * `{ a: { b: [1] } }` becomes `{ 'a.b.0': 1 }`, so they fit CSV columns
+ */
+export function flattenRecord(value: unknown, prefix: string = ''): Record<string, CsvValue> {
+  if (value !== null && typeof value === 'object' && !(value instanceof Uint8Array)) {
+    const entries = value instanceof Map ? [...value] : Object.entries(value);
+    return Object.assign({}, ...entries.map(([key, item]) => flattenRecord(item, prefix ? `${prefix}.${key}` : String(key))));
+  }
+  const field = value instanceof Uint8Array ? String(jsonReplacer('', value)) : value as CsvValue;
+  return { [prefix]: field };
+}
+
+/**
+ * File name friendly version of a display name, or `fallback` if nothing is left
+ */
+export function fileSlug(name: string, fallback: string): string {
+  return name.trim().replace(/[^\w-]+/g, '-').replace(/^-+|-+$/g, '') || fallback;
+}
+
+const REVOKE_DELAY_MS = 10_000;
+
+/**
+ * Save text as a file through the browser's download prompt
+ */
+export function downloadFile(filename: string, content: string, type: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Revoking right away can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY_MS);
+}
+
+/**
+ * Download `csvRecords` as `<basename>.csv` or `jsonValue` as `<basename>.json`
+ */
+export function downloadExport(
+  basename: string,
+  format: ExportFormat,
+  csvRecords: Record<string, CsvValue>[],
+  jsonValue: unknown,
+): void {
+  if (format === 'csv') {
+    downloadFile(`${basename}.csv`, recordsToCsv(csvRecords), 'text/csv');
+  } else {
+    downloadFile(`${basename}.json`, toJson(jsonValue), 'application/json');
+  }
+}
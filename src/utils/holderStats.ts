@@ -0,0 +1,86 @@
+import { formatAmount, toAmount } from './amount';
+
+export interface Holder {
+  address: string;
+  /** Raw units */
+  balance: bigint;
+}
+
+export interface HolderStats {
+  /** Holders with a positive balance, largest first */
+  holders: Holder[];
+  /** Sum of all positive balances in raw units */
+  totalHeld: bigint;
+  /** Shares of `totalHeld`, from 0 to 1 */
+  topHolderShare: number;
+  top10Share: number;
+  /** Gini coefficient of the balances: 0 when everyone holds the same, close to 1 when one holder has everything */
+  gini: number;
+}
+
+export interface HistogramBucket {
+  label: string;
+  count: number;
+}
+
+/**
+ * `part / total` as a number, with enough precision for percentages
+ */
+export function shareOf(part: bigint, total: bigint): number {
+  if (total === 0n) return 0;
+  return Number((part * 1_000_000n) / total) / 1_000_000;
+}
+
+export function getHolderStats(balances: ReadonlyMap<string, bigint>): HolderStats {
+  const holders = [...balances]
+    .filter(([, balance]) => balance > 0n)
+    .map(([address, balance]) => ({ address, balance }))
+    .sort((a, b) => (a.balance === b.balance ? 0 : a.balance > b.balance ? -1 : 1));
+
+  const totalHeld = holders.reduce((sum, holder) => sum + holder.balance, 0n);
+  const top10 = holders.slice(0, 10).reduce((sum, holder) => sum + holder.balance, 0n);
+
+  // With balances sorted ascending and ranked from 1:
+  // G = 2 * sum(rank * balance) / (n * total) - (n + 1) / n
+  const n = BigInt(holders.length);
+  const weighted = holders.reduce((sum, holder, index) => sum + (n - BigInt(index)) * holder.balance, 0n);
+  const gini = holders.length === 0
+    ? 0
+    : Math.max(0, shareOf(2n * weighted, n * totalHeld) - (holders.length + 1) / holders.length);
+
+  return {
+    holders,
+    totalHeld,
+    topHolderShare: shareOf(holders[0]?.balance ?? 0n, totalHeld),
+    top10Share: shareOf(top10, totalHeld),
+    gini,
+  };
+}
+
+/**
+ * Count holders per order of magnitude of their balance in whole tokens
+ * (below 1, 1–10, 10–100, …), from the smallest to the largest bucket in use
+ */
+export function balanceHistogram(holders: Holder[], decimals: number): HistogramBucket[] {
+  if (holders.length === 0) return [];
+
+  const unit = 10n ** BigInt(decimals);
+  const counts = new Map<number, number>();
+  for (const { balance } of holders) {
+    const whole = balance / unit;
+    // Bucket 0 is below one token, bucket k covers 10^(k-1) up to 10^k
+    const bucket = whole === 0n ? 0 : whole.toString().length;
+    counts.set(bucket, (counts.get(bucket) ?? 0) + 1);
+  }
+
+  const bound = (exponent: number) => formatAmount(toAmount(10n ** BigInt(exponent)), { compact: true });
+  const buckets = [...counts.keys()];
+  const result: HistogramBucket[] = [];
+  for (let bucket = Math.min(...buckets); bucket <= Math.max(...buckets); bucket++) {
+    result.push({
+      label: bucket === 0 ? '< 1' : `${bound(bucket - 1)}–${bound(bucket)}`,
+      count: counts.get(bucket) ?? 0,
+    });
+  }
+  return result;
+}
@@ -0,0 +1,81 @@
+import { arweaveGateways, ipfsGateways } from '../config/gateways';
+
+// CIDv0 (base58, Qm...) or CIDv1 (base32, b...)
+const CID_PATTERN = /^(Qm[1-9A-HJ-NP-Za-km-z]{44}|b[a-z2-7]{58,})(\/.*)?$/;
+
+// Path-style gateway URLs, e.g. https://gateway.pinata.cloud/ipfs/<cid>/1.png
+const GATEWAY_PATH_PATTERN = /^https?:\/\/[^/]+\/ipfs\/(.+)$/i;
+
+/**
+ * Metadata may hold a URI directly or wrapped as `{ uri }` / `{ url }`
+ */
+export function unwrapUri(value: unknown): string | null {
+  if (typeof value === 'string') {
+    const trimmed = value.trim();
+    return trimmed || null;
+  }
+  if (typeof value === 'object' && value !== null) {
+    const record = value as Record<string, unknown>;
+    if (typeof record.uri === 'string') return unwrapUri(record.uri);
+    if (typeof record.url === 'string') return unwrapUri(record.url);
+  }
+  return null;
+}
+
+function withGateways(gateways: string[], path: string): string[] {
+  return gateways.map(gateway => gateway + path);
+}
+
+/**
+ * Candidate HTTP(S) or data: URLs for a media URI, in the order they should
+ * be tried. Supports https://, ipfs:// (and bare CIDs or /ipfs/ paths),
+ * ar://, data: and inline SVG markup. Returns an empty list for anything
+ * that cannot be loaded safely.
+ */
+export function resolveMediaUri(value: unknown): string[] {
+  const uri = unwrapUri(value);
+  if (!uri) return [];
+
+  if (uri.startsWith('<svg') || uri.startsWith('<?xml')) {
+    return [`data:image/svg+xml;charset=utf-8,${encodeURIComponent(uri)}`];
+  }
+
+  const lower = uri.toLowerCase();
+
+  if (lower.startsWith('data:')) return [uri];
+
+  if (lower.startsWith('ipfs://')) {
+    // Both ipfs://<cid> and the older ipfs://ipfs/<cid> are in use
+    return withGateways(ipfsGateways, uri.slice('ipfs://'.length).replace(/^ipfs\//, ''));
+  }
+  if (lower.startsWith('/ipfs/')) {
+    return withGateways(ipfsGateways, uri.slice('/ipfs/'.length));
+  }
+  if (CID_PATTERN.test(uri)) {
+    return withGateways(ipfsGateways, uri);
+  }
+
+  if (lower.startsWith('ar://')) {
+    return withGateways(arweaveGateways, uri.slice('ar://'.length));
+  }
+
+  if (lower.startsWith('https://') || lower.startsWith('http://')) {
+    // Content pinned behind a specific gateway can be served by any other
+    const gatewayMatch = GATEWAY_PATH_PATTERN.exec(uri);
+    if (gatewayMatch) {
+      return [uri, ...withGateways(ipfsGateways, gatewayMatch[1]).filter(candidate => candidate !== uri)];
+    }
+    return [uri];
+  }
+
+  return [];
+}
+
+/**
+ * URL to use for a link. Only http(s) targets are returned so metadata
+ * cannot inject javascript: or data: links.
+ */
+export function resolveLinkUri(value: unknown): string | null {
+  const [first] = resolveMediaUri(value);
+  return first && /^https?:\/\//i.test(first) ? first : null;
+}
@@ -0,0 +1,296 @@
+import { decode as decodeCbor } from 'cbor2';
+
+/**
+ * How the metadata bytes were handed to the decoder
+ */
+export type MetadataEncoding =
+  | 'cairo-byte-array' // { data, pending_word, pending_word_len } struct
+  | 'hex'              // 0x-prefixed hex string
+  | 'byte-string'      // string with one character per byte, as parsed by starknet.js
+  | 'text'             // string that already holds decoded text
+  | 'bytes'            // Uint8Array or array of byte values
+  | 'object'           // value that was decoded before reaching us
+  | 'none';
+
+/**
+ * What the metadata bytes turned out to contain
+ */
+export type MetadataFormat = 'cbor' | 'json' | 'text' | 'binary' | 'empty';
+
+export interface DecodedMetadata {
+  format: MetadataFormat;
+  encoding: MetadataEncoding;
+  /**
+   * Decoded value: the CBOR/JSON value, the text for `text`, a 0x hex
+   * string for `binary` and null for `empty`
+   */
+  value: unknown;
+  warnings: string[];
+  /** Set when the fields were fetched from an off-chain document */
+  offChain?: OffChainSource;
+}
+
+export interface OffChainSource {
+  /** URI referenced on-chain */
+  uri: string;
+  /** Gateway URL the document was loaded from */
+  url: string;
+  /** Whether the document matched a content hash given on-chain */
+  verified: boolean;
+}
+
+export interface CairoByteArray {
+  data: unknown[];
+  pending_word: unknown;
+  pending_word_len: unknown;
+}
+
+// Full words of a Cairo ByteArray always hold exactly 31 bytes
+const BYTES_PER_WORD = 31;
+
+/**
+ * Custom JSON.stringify replacer to handle BigInt and byte arrays
+ */
+export function jsonReplacer(_key: string, value: unknown): unknown {
+  if (typeof value === 'bigint') return value.toString();
+  if (value instanceof Uint8Array) return bytesToHex(value);
+  if (value instanceof Map) return Object.fromEntries(value);
+  return value;
+}
+
+/**
+ * Pretty-print decoded metadata for the "raw" views
+ */
+export function formatMetadataJson(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  if (typeof value === 'string') return value;
+  try {
+    return JSON.stringify(value, jsonReplacer, 2);
+  } catch {
+    return String(value);
+  }
+}
+
+/**
+ * Check if a value looks like a Cairo ByteArray struct
+ */
+export function isCairoByteArray(value: unknown): value is CairoByteArray {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    'data' in value &&
+    Array.isArray((value as CairoByteArray).data) &&
+    'pending_word' in value &&
+    'pending_word_len' in value
+  );
+}
+
+export function hexToBytes(hex: string): Uint8Array {
+  let digits = hex.startsWith('0x') || hex.startsWith('0X') ? hex.slice(2) : hex;
+  if (digits.length % 2 !== 0) digits = '0' + digits;
+  if (!/^[0-9a-fA-F]*$/.test(digits)) {
+    throw new Error(`Invalid hex string: ${hex}`);
+  }
+
+  const bytes = new Uint8Array(digits.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(digits.substring(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
+
+export function bytesToHex(bytes: Uint8Array): string {
+  return '0x' + Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function feltToBytes(felt: unknown, length: number): Uint8Array {
+  const hex = BigInt(felt as string).toString(16);
+  if (hex.length > length * 2) {
+    throw new Error(`Word 0x${hex} does not fit in ${length} bytes`);
+  }
+  return hexToBytes(hex.padStart(length * 2, '0'));
+}
+
+/**
+ * Exact bytes held by a Cairo ByteArray struct. Unlike decoding each word as
+ * a short string, this keeps leading zero bytes.
+ */
+export function cairoByteArrayToBytes(byteArray: CairoByteArray): Uint8Array {
+  const pendingLength = Number(byteArray.pending_word_len);
+  if (!Number.isInteger(pendingLength) || pendingLength < 0 || pendingLength >= BYTES_PER_WORD) {
+    throw new Error(`Invalid pending_word_len: ${String(byteArray.pending_word_len)}`);
+  }
+
+  const bytes = new Uint8Array(byteArray.data.length * BYTES_PER_WORD + pendingLength);
+  byteArray.data.forEach((word, index) => {
+    bytes.set(feltToBytes(word, BYTES_PER_WORD), index * BYTES_PER_WORD);
+  });
+  if (pendingLength > 0) {
+    bytes.set(feltToBytes(byteArray.pending_word, pendingLength), byteArray.data.length * BYTES_PER_WORD);
+  }
+  return bytes;
+}
+
+/**
+ * Convert bytes to a string with one character per byte, the form
+ * starknet.js uses for ByteArray values
+ */
+export function bytesToByteString(bytes: Uint8Array): string {
+  let result = '';
+  for (let i = 0; i < bytes.length; i++) {
+    result += String.fromCharCode(bytes[i]);
+  }
+  return result;
+}
+
+export function isByteString(value: string): boolean {
+  for (let i = 0; i < value.length; i++) {
+    if (value.charCodeAt(i) > 0xff) return false;
+  }
+  return true;
+}
+
+export function byteStringToBytes(value: string): Uint8Array {
+  const bytes = new Uint8Array(value.length);
+  for (let i = 0; i < value.length; i++) {
+    bytes[i] = value.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Decode bytes as UTF-8, returning null if they are not valid UTF-8
+ */
+export function bytesToText(bytes: Uint8Array): string | null {
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Turn a ByteArray value returned by a contract (a byte string) into
+ * readable text, leaving it untouched if it is not valid UTF-8
+ */
+export function byteStringToText(value: string): string {
+  if (!isByteString(value)) return value;
+  return bytesToText(byteStringToBytes(value)) ?? value;
+}
+
+// Text that may reasonably be shown as-is: no control characters other than whitespace
+function isPrintable(text: string): boolean {
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    if ((code < 0x20 && code !== 0x09 && code !== 0x0a && code !== 0x0d) || code === 0x7f) return false;
+  }
+  return true;
+}
+
+// CBOR reads a lone digit or letter of text as a number or simple value, so
+// those only count as CBOR when the bytes are not printable text anyway
+function isPlausibleCbor(value: unknown, text: string | null): boolean {
+  if (text === null || !isPrintable(text)) return true;
+  return typeof value === 'string' || (typeof value === 'object' && value !== null);
+}
+
+// CBOR, then JSON, then UTF-8 text; null when the bytes are none of them
+function parseBytes(bytes: Uint8Array, encoding: MetadataEncoding, warnings: string[]): DecodedMetadata | null {
+  const text = bytesToText(bytes);
+
+  try {
+    const value = decodeCbor(bytes);
+    if (isPlausibleCbor(value, text)) return { format: 'cbor', encoding, value, warnings };
+  } catch {
+    // Most text and JSON is not valid CBOR
+  }
+
+  if (text === null || !isPrintable(text)) return null;
+
+  const trimmed = text.trim();
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+    try {
+      return { format: 'json', encoding, value: JSON.parse(trimmed), warnings };
+    } catch (error) {
+      warnings.push(`Looks like JSON but could not be parsed: ${(error as Error).message}`);
+    }
+  }
+  return { format: 'text', encoding, value: text, warnings };
+}
+
+function decodeBytes(bytes: Uint8Array, encoding: MetadataEncoding, warnings: string[]): DecodedMetadata {
+  if (bytes.length === 0) {
+    return { format: 'empty', encoding, value: null, warnings };
+  }
+
+  const parsed = parseBytes(bytes, encoding, warnings);
+  if (parsed) return parsed;
+
+  warnings.push('Metadata is not CBOR, JSON or text; showing raw bytes');
+  return { format: 'binary', encoding, value: bytesToHex(bytes), warnings };
+}
+
+/**
+ * Decode on-chain metadata. The carrier (ByteArray struct, hex, byte
+ * string, raw bytes) is detected first, then the bytes are decoded as CBOR,
+ * JSON or UTF-8 text, in that order, and shown as hex only when none of
+ * them parses. Never throws; problems are reported in `warnings`.
+ */
+export function decodeMetadata(input: unknown): DecodedMetadata {
+  const warnings: string[] = [];
+
+  try {
+    if (input === undefined || input === null || input === '') {
+      return { format: 'empty', encoding: 'none', value: null, warnings };
+    }
+
+    if (input instanceof Uint8Array) {
+      return decodeBytes(input, 'bytes', warnings);
+    }
+
+    if (Array.isArray(input)) {
+      if (input.every(item => Number.isInteger(Number(item)) && Number(item) >= 0 && Number(item) <= 0xff)) {
+        return decodeBytes(new Uint8Array(input.map(Number)), 'bytes', warnings);
+      }
+      return { format: 'json', encoding: 'object', value: input, warnings };
+    }
+
+    if (isCairoByteArray(input)) {
+      return decodeBytes(cairoByteArrayToBytes(input), 'cairo-byte-array', warnings);
+    }
+
+    if (typeof input === 'string') {
+      // Text such as "0xdeadbeef" only counts as hex when its bytes decode
+      if (/^0x([0-9a-fA-F]{2})*$/.test(input)) {
+        const bytes = hexToBytes(input);
+        const parsed = bytes.length === 0 ? decodeBytes(bytes, 'hex', warnings) : parseBytes(bytes, 'hex', warnings);
+        if (parsed) return parsed;
+      }
+      if (isByteString(input)) {
+        return decodeBytes(byteStringToBytes(input), 'byte-string', warnings);
+      }
+      return decodeBytes(new TextEncoder().encode(input), 'text', warnings);
+    }
+
+    if (typeof input === 'object') {
+      return { format: 'json', encoding: 'object', value: input, warnings };
+    }
+
+    warnings.push(`Unsupported metadata type: ${typeof input}`);
+    return { format: 'text', encoding: 'none', value: String(input), warnings };
+  } catch (error) {
+    warnings.push(`Could not decode metadata: ${(error as Error).message}`);
+    return { format: 'text', encoding: 'none', value: String(input), warnings };
+  }
+}
+
+/**
+ * The decoded value as a record of fields, or an empty record when the
+ * metadata is not a key/value structure
+ */
+export function metadataFields(metadata: DecodedMetadata | undefined): Record<string, unknown> {
+  const value = metadata?.value;
+  if (value instanceof Map) return Object.fromEntries(value);
+  if (typeof value === 'object' && value !== null && !Array.isArray(value)) return value as Record<string, unknown>;
+  return {};
+}
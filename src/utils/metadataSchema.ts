@@ -0,0 +1,275 @@
+import { DecodedMetadata, metadataFields } from './metadataDecoder';
+import { resolveMediaUri, unwrapUri } from './mediaUri';
+
+/**
+ * Collection-level metadata, following OpenSea's contract-level metadata
+ */
+export interface CollectionMetadata {
+  name?: string;
+  description?: string;
+  image?: string;
+  banner_image?: string;
+  external_link?: string;
+}
+
+export type AttributeDisplayType = 'number' | 'boost_number' | 'boost_percentage' | 'date';
+
+/**
+ * OpenSea-compatible token attribute. `trait_type` may be omitted for
+ * generic properties.
+ */
+export interface TokenAttribute {
+  trait_type?: string;
+  value: string | number | boolean;
+  display_type?: AttributeDisplayType;
+  max_value?: number;
+}
+
+/**
+ * Token-level metadata, following OpenSea's token metadata standard
+ */
+export interface TokenMetadata {
+  name?: string;
+  description?: string;
+  image?: string;
+  external_url?: string;
+  animation_url?: string;
+  background_color?: string;
+  attributes: TokenAttribute[];
+}
+
+export interface MetadataIssue {
+  /** Path of the offending field, e.g. `attributes[2].value` */
+  field: string;
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+export interface ValidatedMetadata<T> {
+  metadata: T;
+  issues: MetadataIssue[];
+}
+
+/**
+ * The subset of JSON Schema (draft-07) used by the metadata schemas
+ */
+export interface JsonSchema {
+  type?: JsonSchemaType | JsonSchemaType[];
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  /** Properties that should be present but are not required */
+  'x-recommended'?: string[];
+  items?: JsonSchema;
+  enum?: readonly (string | number | boolean)[];
+  /** `uri` accepts anything `resolveMediaUri` can load, not just RFC 3986 URIs */
+  format?: 'uri';
+  pattern?: string;
+  minLength?: number;
+}
+
+type JsonSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+
+const uriProperty = (description: string): JsonSchema => ({ type: 'string', format: 'uri', description });
+
+export const collectionMetadataSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    name: { type: 'string', minLength: 1, description: 'Collection name' },
+    description: { type: 'string', description: 'Collection description' },
+    image: uriProperty('Collection logo'),
+    banner_image: uriProperty('Wide banner shown above the collection'),
+    external_link: uriProperty('Issuer website'),
+  },
+  'x-recommended': ['name', 'description', 'image'],
+};
+
+export const tokenAttributeSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    trait_type: { type: 'string', minLength: 1 },
+    value: { type: ['string', 'number', 'boolean'] },
+    display_type: { type: 'string', enum: ['number', 'boost_number', 'boost_percentage', 'date'] },
+    max_value: { type: 'number' },
+  },
+  required: ['value'],
+};
+
+export const tokenMetadataSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    name: { type: 'string', minLength: 1, description: 'Token name' },
+    description: { type: 'string', description: 'Token description' },
+    image: uriProperty('Token image'),
+    external_url: uriProperty('Page about this token on the issuer website'),
+    animation_url: uriProperty('Video, audio or HTML media for the token'),
+    background_color: { type: 'string', pattern: '^[0-9a-fA-F]{6}$', description: 'Six-digit hex color without #' },
+    attributes: { type: 'array', items: tokenAttributeSchema },
+  },
+  'x-recommended': ['name', 'description', 'image'],
+};
+
+function typeOf(value: unknown): JsonSchemaType | 'undefined' {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  if (typeof value === 'bigint') return 'integer';
+  if (typeof value === 'string' || typeof value === 'boolean' || typeof value === 'object') return typeof value as JsonSchemaType;
+  return 'undefined';
+}
+
+function matchesType(value: unknown, type: JsonSchemaType): boolean {
+  const actual = typeOf(value);
+  return actual === type || (type === 'number' && actual === 'integer');
+}
+
+/**
+ * Validate a value against the supported subset of JSON Schema, returning
+ * one issue per violation
+ */
+export function validateSchema(value: unknown, schema: JsonSchema, path: string = ''): MetadataIssue[] {
+  const field = path || 'metadata';
+  const error = (message: string): MetadataIssue => ({ field, severity: 'error', message });
+
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(type => matchesType(value, type))) {
+      return [error(`should be ${types.join(' or ')} but is ${typeOf(value)}`)];
+    }
+  }
+
+  const issues: MetadataIssue[] = [];
+
+  if (schema.enum && !schema.enum.includes(value as string | number | boolean)) {
+    issues.push(error(`should be one of ${schema.enum.join(', ')}`));
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.trim().length < schema.minLength) {
+      issues.push(error('should not be empty'));
+    } else if (schema.format === 'uri' && resolveMediaUri(value).length === 0) {
+      issues.push(error('should be an https://, ipfs://, ar:// or data: URI'));
+    }
+    if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+      issues.push(error(`should match ${schema.pattern}`));
+    }
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, index) => {
+      issues.push(...validateSchema(item, schema.items!, `${path}[${index}]`));
+    });
+  }
+
+  if (typeOf(value) === 'object' && schema.properties) {
+    const record = value as Record<string, unknown>;
+    const prefix = path ? `${path}.` : '';
+    for (const name of schema.required ?? []) {
+      if (record[name] === undefined) {
+        issues.push({ field: prefix + name, severity: 'error', message: 'is required' });
+      }
+    }
+    for (const name of schema['x-recommended'] ?? []) {
+      if (record[name] === undefined) {
+        issues.push({ field: prefix + name, severity: 'warning', message: 'is missing' });
+      }
+    }
+    for (const [name, propertySchema] of Object.entries(schema.properties)) {
+      if (record[name] !== undefined) {
+        issues.push(...validateSchema(record[name], propertySchema, prefix + name));
+      }
+    }
+  }
+
+  return issues;
+}
+
+function decodingIssues(decoded: DecodedMetadata | undefined): MetadataIssue[] {
+  if (!decoded) return [{ field: 'metadata', severity: 'error', message: 'is missing' }];
+
+  const issues: MetadataIssue[] = decoded.warnings.map(message => ({ field: 'metadata', severity: 'warning', message }));
+  if (decoded.format === 'empty') {
+    issues.push({ field: 'metadata', severity: 'warning', message: 'is empty' });
+  } else if (Object.keys(metadataFields(decoded)).length === 0) {
+    issues.push({ field: 'metadata', severity: 'error', message: `should be a JSON or CBOR object but is ${decoded.format}` });
+  }
+  return issues;
+}
+
+function hasError(issues: MetadataIssue[], field: string): boolean {
+  return issues.some(issue =>
+    issue.severity === 'error' &&
+    (issue.field === field || issue.field.startsWith(`${field}.`) || issue.field.startsWith(`${field}[`))
+  );
+}
+
+// URI fields may be given as `{ uri }` objects; flatten them before validation
+function unwrapUriFields(record: Record<string, unknown>, schema: JsonSchema): Record<string, unknown> {
+  const unwrapped = { ...record };
+  for (const [name, propertySchema] of Object.entries(schema.properties ?? {})) {
+    if (propertySchema.format === 'uri' && typeof record[name] === 'object' && record[name] !== null) {
+      unwrapped[name] = unwrapUri(record[name]) ?? record[name];
+    }
+  }
+  return unwrapped;
+}
+
+// Copy the string fields that passed validation
+function pickStrings<K extends string>(
+  record: Record<string, unknown>,
+  keys: readonly K[],
+  issues: MetadataIssue[],
+): Partial<Record<K, string>> {
+  const picked: Partial<Record<K, string>> = {};
+  for (const key of keys) {
+    const value = record[key];
+    if (typeof value === 'string' && !hasError(issues, key)) picked[key] = value.trim();
+  }
+  return picked;
+}
+
+/**
+ * Validate decoded collection metadata and keep only the fields that are valid
+ */
+export function validateCollectionMetadata(decoded: DecodedMetadata | undefined): ValidatedMetadata<CollectionMetadata> {
+  const record = unwrapUriFields(metadataFields(decoded), collectionMetadataSchema);
+  const issues = [...decodingIssues(decoded), ...validateSchema(record, collectionMetadataSchema)];
+
+  return {
+    metadata: pickStrings(record, ['name', 'description', 'image', 'banner_image', 'external_link'] as const, issues),
+    issues,
+  };
+}
+
+/**
+ * Validate decoded token metadata and keep only the fields and attributes
+ * that are valid
+ */
+export function validateTokenMetadata(decoded: DecodedMetadata | undefined): ValidatedMetadata<TokenMetadata> {
+  const record = unwrapUriFields(metadataFields(decoded), tokenMetadataSchema);
+  const issues = [...decodingIssues(decoded), ...validateSchema(record, tokenMetadataSchema)];
+
+  // Invalid attributes are dropped one by one rather than all together
+  const attributes = Array.isArray(record.attributes)
+    ? (record.attributes as Record<string, unknown>[])
+      .filter((_, index) => !hasError(issues, `attributes[${index}]`))
+      .map(attribute => ({
+        ...(attribute.trait_type !== undefined && { trait_type: String(attribute.trait_type) }),
+        value: attribute.value as TokenAttribute['value'],
+        ...(attribute.display_type !== undefined && { display_type: attribute.display_type as AttributeDisplayType }),
+        ...(attribute.max_value !== undefined && { max_value: Number(attribute.max_value) }),
+      }))
+    : [];
+
+  return {
+    metadata: {
+      ...pickStrings(
+        record,
+        ['name', 'description', 'image', 'external_url', 'animation_url', 'background_color'] as const,
+        issues
+      ),
+      attributes,
+    },
+    issues,
+  };
+}
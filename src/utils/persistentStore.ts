@@ -0,0 +1,77 @@
+const DB_NAME = 'infinirewards';
+const STORE_NAME = 'kv';
+const LOCAL_STORAGE_PREFIX = 'infinirewards.kv.';
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+/**
+ * Open the IndexedDB database once. Resolves to null where IndexedDB is not
+ * available so callers can fall back to localStorage.
+ */
+function openDatabase(): Promise<IDBDatabase | null> {
+  if (!dbPromise) {
+    dbPromise = new Promise(resolve => {
+      if (typeof indexedDB === 'undefined') {
+        resolve(null);
+        return;
+      }
+      try {
+        const request = indexedDB.open(DB_NAME, 1);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(STORE_NAME);
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => resolve(null);
+      } catch {
+        resolve(null);
+      }
+    });
+  }
+  return dbPromise;
+}
+
+function runTransaction<T>(
+  db: IDBDatabase,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest,
+): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const request = operation(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result as T);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Read a value from the persistent key-value store
+ */
+export async function getStoredItem<T>(key: string): Promise<T | undefined> {
+  const db = await openDatabase();
+  try {
+    if (db) {
+      return await runTransaction<T | undefined>(db, 'readonly', store => store.get(key));
+    }
+    const raw = localStorage.getItem(LOCAL_STORAGE_PREFIX + key);
+    return raw === null ? undefined : (JSON.parse(raw) as T);
+  } catch (error) {
+    console.warn(`Failed to read "${key}" from persistent storage:`, error);
+    return undefined;
+  }
+}
+
+/**
+ * Write a value to the persistent key-value store. Values must be
+ * structured-cloneable (and JSON-serializable for the localStorage fallback).
+ */
+export async function setStoredItem<T>(key: string, value: T): Promise<void> {
+  const db = await openDatabase();
+  try {
+    if (db) {
+      await runTransaction(db, 'readwrite', store => store.put(value, key));
+      return;
+    }
+    localStorage.setItem(LOCAL_STORAGE_PREFIX + key, JSON.stringify(value));
+  } catch (error) {
+    console.warn(`Failed to write "${key}" to persistent storage:`, error);
+  }
+}
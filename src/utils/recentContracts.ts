@@ -0,0 +1,65 @@
+import type { NetworkId } from '../config/networks';
+import type { ContractKind } from '../services/contractService';
+import { addressesEqual, normalizeAddress } from './address';
+
+const STORAGE_KEY_PREFIX = 'infinirewards.recent.';
+const MAX_RECENT_CONTRACTS = 8;
+
+export interface RecentContract {
+  address: string;
+  kind: ContractKind;
+  name?: string;
+  /** Milliseconds since epoch */
+  viewedAt: number;
+}
+
+function isRecentContract(value: unknown): value is RecentContract {
+  const entry = value as RecentContract;
+  return (
+    typeof entry?.address === 'string' &&
+    (entry.kind === 'points' || entry.kind === 'collectible') &&
+    typeof entry.viewedAt === 'number'
+  );
+}
+
+/**
+ * Contracts viewed on a network, most recent first
+ */
+export function getRecentContracts(networkId: NetworkId): RecentContract[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY_PREFIX + networkId) || '[]');
+    return Array.isArray(stored) ? stored.filter(isRecentContract) : [];
+  } catch {
+    return [];
+  }
+}
+
+function saveRecentContracts(networkId: NetworkId, contracts: RecentContract[]) {
+  try {
+    localStorage.setItem(STORAGE_KEY_PREFIX + networkId, JSON.stringify(contracts));
+  } catch {
+    // Storage may be unavailable (private mode); the list is a convenience only
+  }
+}
+
+/**
+ * Move a contract to the top of the recently viewed list, dropping the
+ * oldest entries beyond the limit
+ */
+export function addRecentContract(networkId: NetworkId, contract: Omit<RecentContract, 'viewedAt'>) {
+  let address = contract.address;
+  try {
+    address = normalizeAddress(address);
+  } catch {
+    // Keep the address as given; the contract page has already loaded it
+  }
+  const others = getRecentContracts(networkId).filter(entry => !addressesEqual(entry.address, address));
+  saveRecentContracts(networkId, [
+    { ...contract, address, viewedAt: Date.now() },
+    ...others,
+  ].slice(0, MAX_RECENT_CONTRACTS));
+}
+
+export function clearRecentContracts(networkId: NetworkId) {
+  saveRecentContracts(networkId, []);
+}
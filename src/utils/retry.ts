@@ -0,0 +1,31 @@
+import type { RetryPolicy } from '../config/retry';
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Delay before retry number `attempt` (0-based): exponential, capped, with
+ * jitter so clients that failed together do not retry together
+ */
+export function backoffDelay(attempt: number, policy: RetryPolicy): number {
+  const delay = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+  return delay / 2 + Math.random() * (delay / 2);
+}
+
+/**
+ * Run an operation, retrying it with exponential backoff while it fails with
+ * errors `shouldRetry` accepts. The last error is thrown once retries run out.
+ */
+export async function withRetry<T>(
+  operation: () => Promise<T>,
+  policy: RetryPolicy,
+  shouldRetry: (error: unknown) => boolean,
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      if (attempt >= policy.retries || !shouldRetry(error)) throw error;
+      await sleep(backoffDelay(attempt, policy));
+    }
+  }
+}
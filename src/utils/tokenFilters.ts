@@ -0,0 +1,223 @@
+import { parseAmount } from './amount';
+import { NO_EXPIRY, isExpired } from './expiry';
+import type { TokenMetadata } from './metadataSchema';
+
+/**
+ * One entry of a collection's token grid
+ */
+export interface TokenListItem {
+  tokenId: string;
+  /** Position in the arrays returned by `get_details` */
+  index: number;
+  metadata: TokenMetadata;
+  /** Raw points units */
+  price: bigint;
+  /** Unix seconds, 0 for no expiry */
+  expiry: number;
+  supply: bigint;
+}
+
+export type ExpiryFilter = 'all' | 'active' | 'expired';
+export type AvailabilityFilter = 'all' | 'available' | 'sold-out';
+export type TokenSortKey = 'id' | 'price' | 'expiry' | 'supply';
+export type SortOrder = 'asc' | 'desc';
+
+export interface TokenFilters {
+  query: string;
+  /** Selected values per trait type; a token must match every trait with a selection */
+  traits: Record<string, string[]>;
+  /** Price bounds as entered, in display units */
+  minPrice: string;
+  maxPrice: string;
+  expiry: ExpiryFilter;
+  availability: AvailabilityFilter;
+  sort: TokenSortKey;
+  order: SortOrder;
+  /** 1-based */
+  page: number;
+}
+
+export const TOKENS_PER_PAGE = 24;
+
+export const DEFAULT_TOKEN_FILTERS: TokenFilters = {
+  query: '',
+  traits: {},
+  minPrice: '',
+  maxPrice: '',
+  expiry: 'all',
+  availability: 'all',
+  sort: 'id',
+  order: 'asc',
+  page: 1,
+};
+
+// Query parameter names; `trait` repeats as `trait=<type>:<value>`
+const PARAMS = {
+  query: 'q',
+  trait: 'trait',
+  minPrice: 'min',
+  maxPrice: 'max',
+  expiry: 'status',
+  availability: 'stock',
+  sort: 'sort',
+  order: 'order',
+  page: 'page',
+} as const;
+
+function oneOf<T extends string>(value: string | null, allowed: readonly T[], fallback: T): T {
+  return allowed.includes(value as T) ? (value as T) : fallback;
+}
+
+/**
+ * Read filters from the URL, ignoring values that are not recognized
+ */
+export function parseTokenFilters(params: URLSearchParams): TokenFilters {
+  const traits: Record<string, string[]> = {};
+  for (const entry of params.getAll(PARAMS.trait)) {
+    const separator = entry.indexOf(':');
+    if (separator <= 0) continue;
+    const type = entry.slice(0, separator);
+    (traits[type] ??= []).push(entry.slice(separator + 1));
+  }
+
+  const page = Number(params.get(PARAMS.page));
+
+  return {
+    query: params.get(PARAMS.query) ?? '',
+    traits,
+    minPrice: params.get(PARAMS.minPrice) ?? '',
+    maxPrice: params.get(PARAMS.maxPrice) ?? '',
+    expiry: oneOf(params.get(PARAMS.expiry), ['all', 'active', 'expired'], 'all'),
+    availability: oneOf(params.get(PARAMS.availability), ['all', 'available', 'sold-out'], 'all'),
+    sort: oneOf(params.get(PARAMS.sort), ['id', 'price', 'expiry', 'supply'], 'id'),
+    order: oneOf(params.get(PARAMS.order), ['asc', 'desc'], 'asc'),
+    page: Number.isInteger(page) && page > 0 ? page : 1,
+  };
+}
+
+/**
+ * Write filters into a copy of `params`, leaving unrelated parameters (such
+ * as `network`) alone and omitting defaults to keep URLs short
+ */
+export function writeTokenFilters(params: URLSearchParams, filters: TokenFilters): URLSearchParams {
+  const next = new URLSearchParams(params);
+  Object.values(PARAMS).forEach(name => next.delete(name));
+
+  const set = (name: string, value: string, fallback: string) => {
+    if (value !== fallback) next.set(name, value);
+  };
+  set(PARAMS.query, filters.query, DEFAULT_TOKEN_FILTERS.query);
+  set(PARAMS.minPrice, filters.minPrice, DEFAULT_TOKEN_FILTERS.minPrice);
+  set(PARAMS.maxPrice, filters.maxPrice, DEFAULT_TOKEN_FILTERS.maxPrice);
+  set(PARAMS.expiry, filters.expiry, DEFAULT_TOKEN_FILTERS.expiry);
+  set(PARAMS.availability, filters.availability, DEFAULT_TOKEN_FILTERS.availability);
+  set(PARAMS.sort, filters.sort, DEFAULT_TOKEN_FILTERS.sort);
+  set(PARAMS.order, filters.order, DEFAULT_TOKEN_FILTERS.order);
+  set(PARAMS.page, String(filters.page), String(DEFAULT_TOKEN_FILTERS.page));
+  for (const [type, values] of Object.entries(filters.traits)) {
+    values.forEach(value => next.append(PARAMS.trait, `${type}:${value}`));
+  }
+  return next;
+}
+
+export function hasActiveTokenFilters(filters: TokenFilters): boolean {
+  return (
+    filters.query !== '' ||
+    Object.values(filters.traits).some(values => values.length > 0) ||
+    filters.minPrice !== '' ||
+    filters.maxPrice !== '' ||
+    filters.expiry !== 'all' ||
+    filters.availability !== 'all'
+  );
+}
+
+/**
+ * All trait types in a collection with their distinct values, for building
+ * the filter controls
+ */
+export function collectTraitValues(items: TokenListItem[]): Record<string, string[]> {
+  const traits = new Map<string, Set<string>>();
+  for (const { metadata } of items) {
+    for (const attribute of metadata.attributes) {
+      if (!attribute.trait_type) continue;
+      let values = traits.get(attribute.trait_type);
+      if (!values) {
+        values = new Set();
+        traits.set(attribute.trait_type, values);
+      }
+      values.add(String(attribute.value));
+    }
+  }
+  return Object.fromEntries(
+    [...traits.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([type, values]) => [type, [...values].sort((a, b) => a.localeCompare(b, undefined, { numeric: true }))])
+  );
+}
+
+function compareBigInt(a: bigint, b: bigint): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+const comparators: Record<TokenSortKey, (a: TokenListItem, b: TokenListItem) => number> = {
+  id: (a, b) => compareBigInt(BigInt(a.tokenId), BigInt(b.tokenId)),
+  price: (a, b) => compareBigInt(a.price, b.price),
+  // Tokens without expiry sort as if they expire last
+  expiry: (a, b) => {
+    if (a.expiry === b.expiry) return 0;
+    if (a.expiry === NO_EXPIRY) return 1;
+    if (b.expiry === NO_EXPIRY) return -1;
+    return a.expiry - b.expiry;
+  },
+  supply: (a, b) => compareBigInt(a.supply, b.supply),
+};
+
+/**
+ * Apply search, filters and sorting. Prices in the filters are converted
+ * with `priceDecimals`; bounds that do not parse are ignored, as are all
+ * price bounds while the decimals are unknown.
+ */
+export function filterTokens(
+  items: TokenListItem[],
+  filters: TokenFilters,
+  priceDecimals: number | undefined,
+  now: number = Date.now(),
+): TokenListItem[] {
+  const query = filters.query.trim().toLowerCase();
+  const minPrice = priceDecimals === undefined ? null : parseAmount(filters.minPrice, priceDecimals);
+  const maxPrice = priceDecimals === undefined ? null : parseAmount(filters.maxPrice, priceDecimals);
+  const traitFilters = Object.entries(filters.traits).filter(([, values]) => values.length > 0);
+
+  const filtered = items.filter(item => {
+    if (query) {
+      const haystack = [item.metadata.name, item.metadata.description, `#${item.tokenId}`]
+        .filter(Boolean)
+        .join(' ')
+        .toLowerCase();
+      if (!haystack.includes(query)) return false;
+    }
+
+    for (const [type, values] of traitFilters) {
+      const matches = item.metadata.attributes.some(attribute =>
+        attribute.trait_type === type && values.includes(String(attribute.value))
+      );
+      if (!matches) return false;
+    }
+
+    if (minPrice !== null && item.price < minPrice) return false;
+    if (maxPrice !== null && item.price > maxPrice) return false;
+
+    if (filters.expiry === 'active' && isExpired(item.expiry, now)) return false;
+    if (filters.expiry === 'expired' && !isExpired(item.expiry, now)) return false;
+
+    if (filters.availability === 'available' && item.supply === 0n) return false;
+    if (filters.availability === 'sold-out' && item.supply !== 0n) return false;
+
+    return true;
+  });
+
+  const compare = comparators[filters.sort];
+  const direction = filters.order === 'desc' ? -1 : 1;
+  // Fall back to token id so equal keys keep a stable order
+  return filtered.sort((a, b) => direction * compare(a, b) || comparators.id(a, b));
+}
@@ -0,0 +1,13 @@
+const U256_BOUND = 2n ** 256n;
+
+/**
+ * Parse a token id from a URL as a u256, in decimal or 0x-prefixed hex.
+ * Returns the id in decimal, the form `get_details` token ids use, or null
+ * if it is not a valid u256.
+ */
+export function parseTokenId(input: string): string | null {
+  const trimmed = input.trim();
+  if (!/^(\d+|0x[0-9a-fA-F]+)$/.test(trimmed)) return null;
+  const value = BigInt(trimmed);
+  return value < U256_BOUND ? value.toString() : null;
+}
@@ -1 +1,28 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_DEFAULT_NETWORK?: string;
+  readonly VITE_MAINNET_RPC_URL?: string;
+  readonly VITE_SEPOLIA_RPC_URL?: string;
+  readonly VITE_DEVNET_RPC_URL?: string;
+  readonly VITE_MAINNET_WS_URL?: string;
+  readonly VITE_SEPOLIA_WS_URL?: string;
+  readonly VITE_DEVNET_WS_URL?: string;
+  readonly VITE_MAINNET_POINTS_CONTRACTS?: string;
+  readonly VITE_MAINNET_COLLECTIBLE_CONTRACTS?: string;
+  readonly VITE_SEPOLIA_POINTS_CONTRACTS?: string;
+  readonly VITE_SEPOLIA_COLLECTIBLE_CONTRACTS?: string;
+  readonly VITE_DEVNET_POINTS_CONTRACTS?: string;
+  readonly VITE_DEVNET_COLLECTIBLE_CONTRACTS?: string;
+  readonly VITE_DEVNET_ACCOUNT_ADDRESS?: string;
+  readonly VITE_DEVNET_ACCOUNT_PRIVATE_KEY?: string;
+  readonly VITE_IPFS_GATEWAYS?: string;
+  readonly VITE_ARWEAVE_GATEWAYS?: string;
+  readonly VITE_RPC_RETRIES?: string;
+  readonly VITE_RPC_RETRY_DELAY_MS?: string;
+  readonly VITE_BLOCK_POLL_INTERVAL_MS?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}